@@ -30,6 +30,8 @@ const sidebars: SidebarsConfig = {
             'cli/commands/status',
             'cli/commands/statusline',
             'cli/commands/preset',
+            'cli/commands/provider',
+            'cli/commands/secret',
             'cli/commands/other',
           ],
         },
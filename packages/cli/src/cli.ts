@@ -18,6 +18,8 @@ import { join } from "path";
 import { parseStatusLineData, StatusLineInput } from "./utils/statusline";
 import {handlePresetCommand} from "./utils/preset";
 import { handleInstallCommand } from "./utils/installCommand";
+import { handleProviderCommand } from "./utils/providerCommand";
+import { handleSecretCommand } from "./utils/secretCommand";
 
 
 const command = process.argv[2];
@@ -32,6 +34,8 @@ const KNOWN_COMMANDS = [
   "code",
   "model",
   "preset",
+  "provider",
+  "secret",
   "install",
   "activate",
   "env",
@@ -54,6 +58,8 @@ Commands:
   code          Execute claude command
   model         Interactive model selection and configuration
   preset        Manage presets (export, install, list, delete)
+  provider      Manage providers (sync, check)
+  secret        Manage the encrypted secret vault (set, list, remove, test)
   install       Install preset from GitHub marketplace
   activate      Output environment variables for shell integration
   ui            Open the web UI in browser
@@ -72,6 +78,9 @@ Examples:
   ccr preset install /path/to/preset     # Install a preset from directory
   ccr preset list                        # List all presets
   ccr install my-preset                  # Install preset from marketplace
+  ccr provider sync openrouter --write   # Add newly listed models to config.json
+  ccr provider check                     # Send a test completion through each provider
+  ccr secret set openrouter              # Store a key in the vault, use it as "vault:openrouter"
   eval "$(ccr activate)"  # Set environment variables globally
   ccr ui
 `;
@@ -268,6 +277,12 @@ async function main() {
     case "preset":
       await handlePresetCommand(process.argv.slice(3));
       break;
+    case "provider":
+      await handleProviderCommand(process.argv.slice(3));
+      break;
+    case "secret":
+      await handleSecretCommand(process.argv.slice(3));
+      break;
     case "install":
       const presetName = process.argv[3];
       await handleInstallCommand(presetName);
@@ -38,6 +38,10 @@ declare module '@inquirer/prompts' {
     message: string;
     default?: boolean;
   }): Promise<boolean>;
+  export function password(config: {
+    message: string;
+    mask?: boolean | string;
+  }): Promise<string>;
 }
 
 declare module 'find-process' {
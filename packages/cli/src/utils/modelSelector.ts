@@ -30,10 +30,10 @@ interface RouterConfig {
   background?: string;
   think?: string;
   longContext?: string;
-  longContextThreshold?: number;
+  longContextThreshold?: number | "auto";
   webSearch?: string;
   image?: string;
-  [key: string]: string | number | undefined;
+  [key: string]: any;
 }
 
 interface Config {
@@ -110,10 +110,15 @@ function displayCurrentConfig(config: Config): void {
   console.log(`${BOLDCYAN}           Current Configuration${RESET}`);
   console.log(`${BOLDCYAN}═══════════════════════════════════════════════${RESET}\n`);
   
-  const formatModel = (routerValue?: string | number) => {
+  const formatModel = (routerValue?: RouterConfig[string]) => {
     if (!routerValue || typeof routerValue === 'number') {
       return `${DIM}Not configured${RESET}`;
     }
+    if (typeof routerValue !== 'string') {
+      const targets = Array.isArray(routerValue) ? routerValue : routerValue.targets || [];
+      const models = targets.map((target: any) => typeof target === 'string' ? target : target.model);
+      return `${YELLOW}load balanced${RESET} | ${models.length} targets\n  ${DIM}- ${models.join('\n  - ')}${RESET}`;
+    }
     const [provider, model] = routerValue.split(',');
     return `${YELLOW}${provider}${RESET} | ${model}\n  ${DIM}- ${routerValue}${RESET}`;
   };
@@ -0,0 +1,184 @@
+/**
+ * Provider command handler
+ */
+
+import * as fs from 'fs/promises';
+import JSON5 from 'json5';
+import {
+  CONFIG_FILE,
+  applyDiscoveredModels,
+  diffModels,
+  discoverModels,
+  getModelListUrl,
+} from '@CCR/shared';
+import { backupConfigFile, readConfigFile, writeConfigFile } from '.';
+import { getServiceInfo } from './processCheck';
+
+// ANSI color codes
+const RESET = "\x1B[0m";
+const GREEN = "\x1B[32m";
+const RED = "\x1B[31m";
+const YELLOW = "\x1B[33m";
+const BOLDCYAN = "\x1B[1m\x1B[36m";
+const DIM = "\x1B[2m";
+
+const findProvider = (config: any, name: string) =>
+  (config.Providers || config.providers || []).find((provider: any) => provider.name === name);
+
+const formatTokens = (tokens?: number) =>
+  tokens ? `${Math.round(tokens / 1000)}k` : '';
+
+/**
+ * Compare the configured models of a provider with its models listing,
+ * and write the result to config.json with --write
+ */
+async function syncProvider(name: string, options: { write?: boolean; prune?: boolean }): Promise<void> {
+  const config = await readConfigFile();
+  const provider = findProvider(config, name);
+  if (!provider) {
+    console.error(`\n${YELLOW}Error:${RESET} Provider "${name}" not found in config.json\n`);
+    process.exit(1);
+  }
+
+  console.log(`\nListing models of ${BOLDCYAN}${name}${RESET} ${DIM}(${getModelListUrl(provider)})${RESET}`);
+  const discovered = await discoverModels(provider);
+  const diff = diffModels(provider.models || [], discovered);
+  const infoById = new Map(discovered.map((model) => [model.id, model]));
+
+  console.log(`\n${discovered.length} models listed, ${diff.unchanged.length} already configured\n`);
+  diff.added.forEach((id) => {
+    const info = infoById.get(id);
+    const details = [
+      formatTokens(info?.contextWindow) && `context ${formatTokens(info?.contextWindow)}`,
+      info?.pricing && `$${info.pricing.input}/$${info.pricing.output} per 1M tokens`,
+    ].filter(Boolean).join(', ');
+    console.log(`  ${GREEN}+ ${id}${RESET}${details ? ` ${DIM}${details}${RESET}` : ''}`);
+  });
+  diff.removed.forEach((id) => {
+    console.log(`  ${YELLOW}- ${id}${RESET}${options.prune ? '' : ` ${DIM}(kept, use --prune to remove)${RESET}`}`);
+  });
+  if (diff.added.length === 0 && diff.removed.length === 0) {
+    console.log(`  ${DIM}No changes${RESET}`);
+  }
+
+  if (!options.write) {
+    if (diff.added.length || (options.prune && diff.removed.length)) {
+      console.log(`\nRun again with ${GREEN}--write${RESET} to update config.json\n`);
+    }
+    return;
+  }
+
+  // Update the file as written, so env var placeholders are kept
+  const rawConfig = JSON5.parse(await fs.readFile(CONFIG_FILE, 'utf-8'));
+  const providers = rawConfig.Providers || rawConfig.providers || [];
+  const index = providers.findIndex((entry: any) => entry.name === name);
+  providers[index] = applyDiscoveredModels(providers[index], discovered, options);
+
+  const backupPath = await backupConfigFile();
+  if (backupPath) {
+    console.log(`\nBacked up existing configuration file to ${backupPath}`);
+  }
+  await writeConfigFile(rawConfig);
+  console.log(`${GREEN}✓ config.json updated${RESET}, restart the service with ${GREEN}ccr restart${RESET} to use it\n`);
+}
+
+const formatStep = (label: string, step: any): string => {
+  if (!step) return `  ${DIM}- ${label}: skipped${RESET}`;
+  if (step.ok) {
+    const firstByte = step.firstByteMs !== undefined ? `, first byte ${step.firstByteMs}ms` : '';
+    return `  ${GREEN}✓${RESET} ${label} ${DIM}${step.latencyMs}ms${firstByte}${RESET}`;
+  }
+  return `  ${RED}✗${RESET} ${label} ${DIM}[${step.cause}]${RESET} ${step.error}`;
+};
+
+/**
+ * Send a real completion through the transformer chain of each provider, or
+ * of the named one, using the running service
+ */
+async function checkProviders(name: string | undefined, options: { model?: string }): Promise<void> {
+  const info = await getServiceInfo();
+  if (!info.running) {
+    console.error(`\n${YELLOW}Error:${RESET} Service not running, start it with ${GREEN}ccr start${RESET}\n`);
+    process.exit(1);
+  }
+
+  const config = await readConfigFile();
+  const providers = (config.Providers || config.providers || [])
+    .filter((provider: any) => provider.enabled !== false)
+    .map((provider: any) => provider.name);
+  const names: string[] = name ? [name] : providers;
+  if (names.length === 0) {
+    console.log('\nNo providers configured.\n');
+    return;
+  }
+
+  let failed = 0;
+  for (const providerName of names) {
+    const query = options.model ? `?model=${encodeURIComponent(options.model)}` : '';
+    const response = await fetch(`${info.endpoint}/providers/${encodeURIComponent(providerName)}/health${query}`, {
+      headers: config.APIKEY ? { 'x-api-key': config.APIKEY } : {},
+    });
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      failed++;
+      console.log(`\n${RED}✗${RESET} ${BOLDCYAN}${providerName}${RESET}: ${data?.error?.message || `HTTP ${response.status}`}`);
+      continue;
+    }
+
+    if (!data.ok) failed++;
+    console.log(`\n${data.ok ? `${GREEN}✓${RESET}` : `${RED}✗${RESET}`} ${BOLDCYAN}${data.provider}${RESET},${data.model}`);
+    console.log(formatStep('completion', data.completion));
+    if (data.completion.ok) {
+      console.log(formatStep('streaming', data.streaming));
+      console.log(formatStep('tool calling', data.toolCalling));
+    }
+  }
+  console.log('');
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle provider commands
+ */
+export async function handleProviderCommand(args: string[]): Promise<void> {
+  const subCommand = args[0];
+
+  try {
+    switch (subCommand) {
+      case 'sync':
+        const name = args[1];
+        if (!name) {
+          console.error('\nError: Provider name is required\n');
+          console.error('Usage: ccr provider sync <name> [--write] [--prune]\n');
+          process.exit(1);
+        }
+        await syncProvider(name, {
+          write: args.includes('--write'),
+          prune: args.includes('--prune'),
+        });
+        break;
+
+      case 'check':
+        const modelIndex = args.indexOf('--model');
+        await checkProviders(args[1]?.startsWith('--') ? undefined : args[1], {
+          model: modelIndex !== -1 ? args[modelIndex + 1] : undefined,
+        });
+        break;
+
+      default:
+        console.error(`\nError: Unknown provider command "${subCommand}"\n`);
+        console.error('Available commands:');
+        console.error('  ccr provider sync <name>      Compare configured models with the provider listing');
+        console.error('      --write                   Add the new models to config.json');
+        console.error('      --prune                   Also remove models that are no longer listed');
+        console.error('  ccr provider check [name]     Send a test completion through each provider');
+        console.error('      --model <model>           Model to check instead of the first configured one\n');
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error(`\n${YELLOW}Error:${RESET} ${error.message}\n`);
+    process.exit(1);
+  }
+}
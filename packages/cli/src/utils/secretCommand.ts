@@ -0,0 +1,151 @@
+/**
+ * Secret command handler
+ */
+
+import * as fs from 'fs/promises';
+import { password } from '@inquirer/prompts';
+import {
+  VAULT_FILE,
+  VAULT_PASSPHRASE_ENV,
+  isSecretRef,
+  readVault,
+  resolveSecret,
+  writeVault,
+} from '@CCR/shared';
+
+// ANSI color codes
+const RESET = "\x1B[0m";
+const GREEN = "\x1B[32m";
+const YELLOW = "\x1B[33m";
+const BOLDCYAN = "\x1B[1m\x1B[36m";
+const DIM = "\x1B[2m";
+
+const getPassphrase = async (confirmNew = false): Promise<string> => {
+  const fromEnv = process.env[VAULT_PASSPHRASE_ENV];
+  if (fromEnv) return fromEnv;
+  const passphrase = await password({ message: 'Vault passphrase:', mask: '*' });
+  if (confirmNew) {
+    const again = await password({ message: 'Repeat the passphrase:', mask: '*' });
+    if (again !== passphrase) {
+      throw new Error('Passphrases do not match');
+    }
+  }
+  return passphrase;
+};
+
+const vaultExists = (): Promise<boolean> =>
+  fs.access(VAULT_FILE).then(() => true).catch(() => false);
+
+/**
+ * Store a secret in the vault, creating the vault on first use
+ */
+async function setSecret(name: string, value?: string): Promise<void> {
+  const passphrase = await getPassphrase(!(await vaultExists()));
+  const secrets = await readVault(passphrase);
+  const secret = value ?? await password({ message: `Value of ${name}:`, mask: '*' });
+  if (!secret.trim()) {
+    throw new Error('The secret is empty');
+  }
+  secrets[name] = secret.trim();
+  await writeVault(secrets, passphrase);
+  console.log(`\n${GREEN}✓${RESET} Stored ${BOLDCYAN}${name}${RESET}, use it as ${GREEN}"api_key": "vault:${name}"${RESET}\n`);
+}
+
+async function listSecrets(): Promise<void> {
+  if (!(await vaultExists())) {
+    console.log(`\nNo vault yet, add a secret with ${GREEN}ccr secret set <name>${RESET}\n`);
+    return;
+  }
+  const secrets = await readVault(await getPassphrase());
+  const names = Object.keys(secrets).sort();
+  console.log(`\n${BOLDCYAN}Vault${RESET} ${DIM}(${VAULT_FILE})${RESET}\n`);
+  if (names.length === 0) {
+    console.log(`  ${DIM}empty${RESET}`);
+  }
+  names.forEach((name) => console.log(`  ${name}`));
+  console.log('');
+}
+
+async function removeSecret(name: string): Promise<void> {
+  const passphrase = await getPassphrase();
+  const secrets = await readVault(passphrase);
+  if (!(name in secrets)) {
+    console.error(`\n${YELLOW}Error:${RESET} No secret "${name}" in the vault\n`);
+    process.exit(1);
+  }
+  delete secrets[name];
+  await writeVault(secrets, passphrase);
+  console.log(`\n${GREEN}✓${RESET} Removed ${BOLDCYAN}${name}${RESET}\n`);
+}
+
+/**
+ * Resolve a reference the way the service does, without printing the value
+ */
+async function testSecret(ref: string): Promise<void> {
+  if (!isSecretRef(ref)) {
+    console.error(`\n${YELLOW}Error:${RESET} "${ref}" is not a secret reference (file:, cmd: or vault:)\n`);
+    process.exit(1);
+  }
+  if (ref.startsWith('vault:') && !process.env[VAULT_PASSPHRASE_ENV]) {
+    process.env[VAULT_PASSPHRASE_ENV] = await getPassphrase();
+  }
+  const value = await resolveSecret(ref);
+  console.log(`\n${GREEN}✓${RESET} ${ref} resolves to a ${value.length} character secret\n`);
+}
+
+/**
+ * Handle secret commands
+ */
+export async function handleSecretCommand(args: string[]): Promise<void> {
+  const subCommand = args[0];
+  const name = args[1];
+
+  try {
+    switch (subCommand) {
+      case 'set':
+        if (!name) {
+          console.error('\nError: Secret name is required\n');
+          console.error('Usage: ccr secret set <name> [value]\n');
+          process.exit(1);
+        }
+        await setSecret(name, args[2]);
+        break;
+
+      case 'list':
+        await listSecrets();
+        break;
+
+      case 'remove':
+      case 'rm':
+        if (!name) {
+          console.error('\nError: Secret name is required\n');
+          console.error('Usage: ccr secret remove <name>\n');
+          process.exit(1);
+        }
+        await removeSecret(name);
+        break;
+
+      case 'test':
+        if (!name) {
+          console.error('\nError: Secret reference is required\n');
+          console.error('Usage: ccr secret test <reference>\n');
+          process.exit(1);
+        }
+        await testSecret(args.slice(1).join(' '));
+        break;
+
+      default:
+        console.error(`\nError: Unknown secret command "${subCommand}"\n`);
+        console.error('Available commands:');
+        console.error('  ccr secret set <name> [value]   Store a secret in the encrypted vault');
+        console.error('  ccr secret list                 List the names of the stored secrets');
+        console.error('  ccr secret remove <name>        Remove a secret from the vault');
+        console.error('  ccr secret test <reference>     Check that a file:, cmd: or vault: reference resolves\n');
+        console.error(`Set ${VAULT_PASSPHRASE_ENV} to unlock the vault without a prompt; the service needs it to read vault: references.\n`);
+        process.exit(1);
+    }
+  } catch (error: any) {
+    console.error(`\n${YELLOW}Error:${RESET} ${error.message}\n`);
+    process.exit(1);
+  }
+}
@@ -2,7 +2,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { execSync } from "child_process";
 import { tmpdir } from "node:os";
-import { CONFIG_FILE, HOME_DIR, readPresetFile, getPresetDir, loadConfigFromManifest } from "@CCR/shared";
+import { CONFIG_FILE, HOME_DIR, readPresetFile, getPresetDir, loadConfigFromManifest, resolveModelInfo } from "@CCR/shared";
 import JSON5 from "json5";
 
 export interface StatusLineModuleConfig {
@@ -425,6 +425,23 @@ function formatDuration(ms: number): string {
     }
 }
 
+// Look up the context window of the model that served the session in the model registry,
+// including the modelInfo overrides of the provider that lists it
+async function getModelContextWindow(model: string): Promise<number | undefined> {
+    if (!model) {
+        return undefined;
+    }
+    let provider: any;
+    try {
+        const config = JSON5.parse(await fs.readFile(CONFIG_FILE, "utf-8"));
+        const providers = config.Providers || config.providers || [];
+        provider = providers.find((p: any) => Array.isArray(p.models) && p.models.includes(model));
+    } catch {
+        // Fall back to the built-in registry
+    }
+    return resolveModelInfo(model, provider)?.contextWindow;
+}
+
 // Read token-speed statistics from temp file
 async function getTokenSpeedStats(sessionId: string): Promise<{
     tokensPerSecond: number;
@@ -693,7 +710,13 @@ export async function parseStatusLineData(input: StatusLineInput, presetName?: s
 
                 // Get model name from Router field's default content
                 if (config.Router && config.Router.default) {
-                    const [, defaultModel] = config.Router.default.split(",");
+                    // A load-balanced slot lists several targets, show the first one
+                    let defaultTarget = config.Router.default;
+                    if (typeof defaultTarget !== "string") {
+                        const targets = Array.isArray(defaultTarget) ? defaultTarget : defaultTarget.targets || [];
+                        defaultTarget = typeof targets[0] === "string" ? targets[0] : targets[0]?.model || "";
+                    }
+                    const [, defaultModel] = defaultTarget.split(",");
                     if (defaultModel) {
                         model = defaultModel.trim();
                     }
@@ -733,10 +756,15 @@ export async function parseStatusLineData(input: StatusLineInput, presetName?: s
         }
 
         // Process context window data
-        const contextPercent = input.context_window ? calculateContextPercent(input.context_window) : 0;
-        const totalInputTokens = input.context_window?.total_input_tokens || 0;
-        const totalOutputTokens = input.context_window?.total_output_tokens || 0;
-        const contextWindowSize = input.context_window?.context_window_size || 0;
+        // Claude Code reports the window of the Claude model it asked for, prefer the routed model's
+        const registryContextWindow = await getModelContextWindow(model);
+        const contextWindow = input.context_window && registryContextWindow
+            ? { ...input.context_window, context_window_size: registryContextWindow }
+            : input.context_window;
+        const contextPercent = contextWindow ? calculateContextPercent(contextWindow) : 0;
+        const totalInputTokens = contextWindow?.total_input_tokens || 0;
+        const totalOutputTokens = contextWindow?.total_output_tokens || 0;
+        const contextWindowSize = contextWindow?.context_window_size || 0;
 
         // Process cost data
         const totalCost = input.cost?.total_cost_usd || 0;
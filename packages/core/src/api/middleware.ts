@@ -28,8 +28,9 @@ export async function errorHandler(
 
   const statusCode = error.statusCode || 500;
   const response = {
+    type: "error",
     error: {
-      message: error.message + error.stack || "Internal Server Error",
+      message: error.message || "Internal Server Error",
       type: error.type || "api_error",
       code: error.code || "internal_error",
     },
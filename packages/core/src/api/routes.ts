@@ -4,14 +4,82 @@ import {
   FastifyRequest,
   FastifyReply,
 } from "fastify";
-import { RegisterProviderRequest, LLMProvider } from "@/types/llm";
+import type { Dispatcher } from "undici";
+import { ConfigProvider, LLMProvider } from "@/types/llm";
+import {
+  applyDiscoveredModels,
+  diffModels,
+  discoverModels,
+  DiscoveredModel,
+  findLocalSecretRefs,
+  getModelListUrl,
+  isSecretRef,
+  redactSecrets,
+  resolveSecret,
+} from "@CCR/shared";
 import { sendUnifiedRequest } from "@/utils/request";
 import { createApiError } from "./middleware";
 import { version } from "../../package.json";
 import { ConfigService } from "@/services/config";
 import { ProviderService } from "@/services/provider";
 import { TransformerService } from "@/services/transformer";
+import { TokenizerService } from "@/services/tokenizer";
 import { Transformer } from "@/types/transformer";
+import {
+  circuitBreakers,
+  getCircuitBreakerOptions,
+  isCircuitFailure,
+} from "@/utils/circuitBreaker";
+import { router } from "@/utils/router";
+import { BudgetConfig, budgetTracker, isBudgetEnabled } from "@/utils/budget";
+import {
+  observeResponse,
+  observeUsage,
+  readResponse,
+  ResponseSummary,
+} from "@/utils/usage";
+import {
+  diagnoseError,
+  HealthCheckStep,
+  ProviderHealth,
+} from "@/utils/healthCheck";
+import { getTargetModelInfo } from "@/utils/modelRegistry";
+import { getStickySessionOptions, stickySessions } from "@/utils/stickySessions";
+import { getLatencyOptions, latencyStats } from "@/utils/latencyStats";
+import { getRetryAfterMs, getRetryDelay, getRetryOptions, sleep } from "@/utils/retry";
+import { apiKeyPools, getApiKeyId } from "@/utils/apiKeyPool";
+import { TokenProvider } from "@/utils/tokenProvider";
+import { rateLimiters } from "@/utils/rateLimiter";
+import { concurrencyLimiters, releaseWhenRead } from "@/utils/concurrencyLimiter";
+import {
+  connectionPools,
+  getNetworkOptions,
+  getProxy,
+  resolveNetworkHeaders,
+} from "@/utils/network";
+import {
+  ClassifiedError,
+  classifyError,
+  getFallbackModels,
+  getFallbackRule,
+  isEmptyMessage,
+  matchesTrigger,
+} from "@/utils/fallback";
+import { getTargetModels } from "@/utils/loadBalancer";
+import { recoverStream } from "@/utils/sse";
+import {
+  HedgeOptions,
+  getHedgeOptions,
+  hedgeStats,
+  waitForFirstByte,
+} from "@/utils/hedging";
+import {
+  ShadowResult,
+  getShadowOptions,
+  shadowStore,
+  shouldShadow,
+  toShadowResult,
+} from "@/utils/shadow";
 
 // Extend FastifyInstance to include custom services
 declare module "fastify" {
@@ -19,6 +87,7 @@ declare module "fastify" {
     configService: ConfigService;
     providerService: ProviderService;
     transformerService: TransformerService;
+    tokenizerService: TokenizerService;
   }
 
   interface FastifyRequest {
@@ -50,49 +119,134 @@ async function handleTransformerEndpoint(
     );
   }
 
+  // Stop retry waits and upstream requests once the client has gone
+  const disconnect = new AbortController();
+  reply.raw.once("close", () => {
+    if (!reply.raw.writableFinished) {
+      disconnect.abort(new Error("Client disconnected"));
+    }
+  });
+  req.clientSignal = disconnect.signal;
+
+  // Mirror a sample of requests to the shadow target. It gets its own copy of
+  // the body since the transformer chain may modify it in place.
+  const startedAt = Date.now();
+  const shadowOptions = getShadowOptions(fastify.configService.get("shadow"));
+  const shadow = shouldShadow(
+    shadowOptions,
+    req.scenarioType || "default",
+    `${provider.name},${body.model}`
+  )
+    ? runShadowRequest(req, fastify, transformer, structuredClone(body))
+    : undefined;
+
   try {
-    // Process request transformer chain
-    const { requestBody, config, bypass } = await processRequestTransformers(
-      body,
-      provider,
-      transformer,
-      req.headers,
-      {
-        req,
-      }
+    let target = `${provider.name},${body.model}`;
+    let finalResponse: any;
+    const hedge = getHedgeOptions(
+      fastify.configService.get("hedging"),
+      req.scenarioType || "default",
+      target
     );
 
-    // Send request to LLM provider
-    const response = await sendRequestToProvider(
-      requestBody,
-      config,
-      provider,
-      fastify,
-      bypass,
-      transformer,
-      {
+    if (hedge) {
+      ({ response: finalResponse, target } = await sendHedged(
         req,
-      }
-    );
+        fastify,
+        transformer,
+        body,
+        target,
+        hedge
+      ));
+      req.routedTarget = target;
+      updateStickySession(req, fastify, target, true);
+    } else {
+      // Process request transformer chain
+      const { requestBody, config, bypass } = await processRequestTransformers(
+        body,
+        provider,
+        transformer,
+        req.headers,
+        {
+          req,
+        }
+      );
 
-    // Process response transformer chain
-    const finalResponse = await processResponseTransformers(
-      requestBody,
-      response,
-      provider,
-      transformer,
-      bypass,
-      {
-        req,
-      }
-    );
+      // Send request to LLM provider
+      const response = await sendRequestToProvider(
+        requestBody,
+        withSignal(config, req.clientSignal),
+        provider,
+        fastify,
+        bypass,
+        transformer,
+        {
+          req,
+        }
+      );
+
+      req.routedTarget = target;
+      updateStickySession(req, fastify, req.routedTarget, true);
+
+      // Process response transformer chain
+      finalResponse = await processResponseTransformers(
+        requestBody,
+        response,
+        provider,
+        transformer,
+        bypass,
+        {
+          req,
+        }
+      );
+    }
+    await ensureNotEmpty(finalResponse, body.stream === true, target);
 
     // Format and return response
-    return formatResponse(finalResponse, reply, body);
+    const isStream = body.stream === true;
+    return formatResponse(
+      compareWithShadow(
+        trackSpend(
+          recoverInterruptedStream(finalResponse, req, fastify, transformer, body, target),
+          req,
+          target,
+          isStream,
+          fastify
+        ),
+        req,
+        shadow,
+        target,
+        startedAt,
+        isStream,
+        fastify
+      ),
+      reply,
+      body
+    );
   } catch (error: any) {
-    // Handle fallback if error occurs
-    if (error.code === 'provider_response_error') {
-      const fallbackResult = await handleFallback(req, reply, fastify, transformer, error);
+    // Nobody is waiting for a fallback
+    if (req.clientSignal?.aborted) {
+      throw error;
+    }
+    updateStickySession(req, fastify, `${provider.name},${body.model}`, false);
+    if (shadow) {
+      saveShadowPair(
+        req,
+        shadow,
+        body.stream === true,
+        {
+          target: `${provider.name},${body.model}`,
+          latencyMs: Date.now() - startedAt,
+          toolCalls: [],
+          error: error.message,
+        },
+        shadowOptions.maxFileSize
+      );
+    }
+    // Handle fallback if the upstream failed
+    const failure = classifyError(error);
+    if (failure) {
+      const fallbackResult = await handleFallback(req, reply, fastify, transformer, failure);
       if (fallbackResult) {
         return fallbackResult;
       }
@@ -103,86 +257,74 @@ async function handleTransformerEndpoint(
 
 /**
  * Handle fallback logic when request fails
- * Tries each fallback model in sequence until one succeeds
+ * Tries each fallback model in sequence until one succeeds. Context-length
+ * failures go to the `longContext` targets first.
  */
 async function handleFallback(
   req: FastifyRequest,
   reply: FastifyReply,
   fastify: FastifyInstance,
   transformer: any,
-  error: any
+  failure: ClassifiedError
 ): Promise<any> {
-  const scenarioType = (req as any).scenarioType || 'default';
+  const scenarioType = req.scenarioType || 'default';
   const fallbackConfig = fastify.configService.get<any>('fallback');
+  const longContext = fastify.configService.get<any>('Router')?.longContext;
 
-  if (!fallbackConfig || !fallbackConfig[scenarioType]) {
-    return null;
+  let fallbackList: string[];
+  if (failure.class === 'context_length' && longContext && scenarioType !== 'longContext') {
+    fallbackList = [
+      ...getTargetModels(longContext),
+      ...getFallbackModels(fallbackConfig, 'longContext'),
+    ];
+    req.log.warn(`Context length exceeded for ${scenarioType}, trying the longContext models`);
+  } else {
+    const rule = getFallbackRule(fallbackConfig, scenarioType);
+    if (!matchesTrigger(failure, rule.on)) {
+      return null;
+    }
+    fallbackList = rule.models;
   }
-
-  const fallbackList = fallbackConfig[scenarioType] as string[];
-  if (!Array.isArray(fallbackList) || fallbackList.length === 0) {
+  const failedTarget = `${req.provider},${(req.body as any).model}`;
+  fallbackList = fallbackList.filter((target) => target !== failedTarget);
+  if (fallbackList.length === 0) {
     return null;
   }
+  const breakerOptions = getCircuitBreakerOptions(
+    fastify.configService.get("circuitBreaker")
+  );
 
   req.log.warn(`Request failed for ${(req as any).scenarioType}, trying ${fallbackList.length} fallback models`);
 
   // Try each fallback model in sequence
   for (const fallbackModel of fallbackList) {
     try {
-      req.log.info(`Trying fallback model: ${fallbackModel}`);
-
-      // Update request with fallback model
-      const newBody = { ...(req.body as any) };
-      const [fallbackProvider, ...fallbackModelName] = fallbackModel.split(',');
-      newBody.model = fallbackModelName.join(',');
-
-      // Create new request object with updated provider and body
-      const newReq = {
-        ...req,
-        provider: fallbackProvider,
-        body: newBody,
-      };
-
-      const provider = fastify.providerService.getProvider(fallbackProvider);
-      if (!provider) {
-        req.log.warn(`Fallback provider '${fallbackProvider}' not found, skipping`);
+      if (!circuitBreakers.isAvailable(fallbackModel, breakerOptions)) {
+        req.log.warn(`Circuit open for fallback model ${fallbackModel}, skipping`);
         continue;
       }
+      req.log.info(`Trying fallback model: ${fallbackModel}`);
 
-      // Process request transformer chain
-      const { requestBody, config, bypass } = await processRequestTransformers(
-        newBody,
-        provider,
-        transformer,
-        req.headers,
-        { req: newReq }
-      );
-
-      // Send request to LLM provider
-      const response = await sendRequestToProvider(
-        requestBody,
-        config,
-        provider,
-        fastify,
-        bypass,
-        transformer,
-        { req: newReq }
-      );
-
-      // Process response transformer chain
-      const finalResponse = await processResponseTransformers(
-        requestBody,
-        response,
-        provider,
-        transformer,
-        bypass,
-        { req: newReq }
-      );
+      const newBody = { ...(req.body as any) };
+      const finalResponse = await sendToTarget(req, fastify, transformer, fallbackModel, newBody);
+      await ensureNotEmpty(finalResponse, newBody.stream === true, fallbackModel);
 
       req.log.info(`Fallback model ${fallbackModel} succeeded`);
+      req.routedTarget = fallbackModel;
+      updateStickySession(req, fastify, fallbackModel, true);
 
       // Format and return response
-      return formatResponse(finalResponse, reply, newBody);
+      return formatResponse(
+        trackSpend(
+          recoverInterruptedStream(finalResponse, req, fastify, transformer, newBody, fallbackModel),
+          req,
+          fallbackModel,
+          newBody.stream === true,
+          fastify
+        ),
+        reply,
+        newBody
+      );
     } catch (fallbackError: any) {
       req.log.warn(`Fallback model ${fallbackModel} failed: ${fallbackError.message}`);
       continue;
@@ -193,6 +335,495 @@ async function handleFallback(
   return null;
 }
 
+/**
+ * Reject a non-streaming response that carries no content, so that it can
+ * be retried on a fallback model
+ */
+async function ensureNotEmpty(response: any, isStream: boolean, target: string) {
+  if (isStream || !(response instanceof Response) || !response.ok) return;
+  const data = await response.clone().json().catch(() => null);
+  if (isEmptyMessage(data)) {
+    throw createApiError(`Empty response from ${target}`, 502, "empty_response");
+  }
+}
+
+/**
+ * Pin the session to a target that served it, or release the pin after
+ * the pinned target failed
+ */
+function updateStickySession(
+  req: FastifyRequest,
+  fastify: FastifyInstance,
+  target: string,
+  succeeded: boolean
+) {
+  const options = getStickySessionOptions(fastify.configService.get("stickySessions"));
+  if (!options.enabled || !req.sessionId) return;
+  const scenarioType = req.scenarioType || "default";
+  if (succeeded) {
+    stickySessions.pin(req.sessionId, scenarioType, target, options);
+  } else {
+    stickySessions.unpin(req.sessionId, scenarioType, target);
+  }
+}
+
+/**
+ * Charge the usage of a response to the budget of its session and project
+ */
+function trackSpend(
+  response: any,
+  req: FastifyRequest,
+  target: string,
+  isStream: boolean,
+  fastify: FastifyInstance
+) {
+  if (
+    !(response instanceof Response) ||
+    !isBudgetEnabled(fastify.configService.get<BudgetConfig>("budget"))
+  ) {
+    return response;
+  }
+  return observeUsage(response, isStream, (usage) => {
+    const price = getTargetModelInfo(
+      target,
+      fastify.configService.get<any[]>("providers"),
+      fastify.configService.get("pricing")
+    )?.pricing;
+    const cost = budgetTracker.record(
+      usage,
+      { sessionId: req.sessionId, project: req.project },
+      price
+    );
+    if (cost === undefined) {
+      req.log.warn(`No price known for ${target}, usage is not charged to the budget`);
+    } else {
+      req.log.debug(`Charged $${cost.toFixed(6)} for ${target}`);
+    }
+  });
+}
+
+/**
+ * Request config that aborts with `signal`, next to any signal it already has
+ */
+const withSignal = (config: any, signal?: AbortSignal) => {
+  if (!signal) return config;
+  return {
+    ...config,
+    signal: config.signal ? AbortSignal.any([config.signal, signal]) : signal,
+  };
+};
+
+interface SendOptions {
+  signal?: AbortSignal;
+  // Side requests such as shadow traffic and health checks: they leave the
+  // rate limit, concurrency slots, key pool counters and circuit breaker untouched
+  probe?: boolean;
+}
+
+/**
+ * Run a request body against a "provider,model" target through the same
+ * transformer chain as the routed request
+ */
+async function sendToTarget(
+  req: FastifyRequest,
+  fastify: FastifyInstance,
+  transformer: any,
+  target: string,
+  body: any,
+  options: SendOptions = {}
+) {
+  const { signal, probe } = options;
+  const [providerName, ...model] = target.split(",");
+  const provider = fastify.providerService.getProvider(providerName);
+  if (!provider) {
+    throw createApiError(
+      `Provider '${providerName}' not found`,
+      404,
+      "provider_not_found"
+    );
+  }
+
+  // Create new request object with updated provider and body
+  const newBody = { ...body, model: model.join(",") };
+  const newReq = { ...req, provider: providerName, body: newBody };
+
+  // Process request transformer chain
+  const { requestBody, config, bypass } = await processRequestTransformers(
+    newBody,
+    provider,
+    transformer,
+    { ...req.headers },
+    { req: newReq }
+  );
+
+  // Send request to LLM provider
+  const response = await sendRequestToProvider(
+    requestBody,
+    // Side requests carry on without the client
+    withSignal(withSignal(config, signal), probe ? undefined : req.clientSignal),
+    provider,
+    fastify,
+    bypass,
+    transformer,
+    { req: newReq },
+    probe
+  );
+
+  // Process response transformer chain
+  return processResponseTransformers(
+    requestBody,
+    response,
+    provider,
+    transformer,
+    bypass,
+    { req: newReq }
+  );
+}
+
+/**
+ * Send the request to the routed target and, when it has not produced a
+ * first byte within the hedge delay, to the hedge target as well. The first
+ * to respond wins and the other request is aborted.
+ */
+async function sendHedged(
+  req: FastifyRequest,
+  fastify: FastifyInstance,
+  transformer: any,
+  body: any,
+  target: string,
+  hedge: Required<HedgeOptions>
+): Promise<{ response: any; target: string }> {
+  const scenarioType = req.scenarioType || "default";
+  hedgeStats.recordRequest(scenarioType);
+  // Both transformer chains may modify their body in place
+  const hedgeBody = structuredClone(body);
+
+  const attempt = (attemptTarget: string, attemptBody: any) => {
+    const controller = new AbortController();
+    const result = sendToTarget(
+      req,
+      fastify,
+      transformer,
+      attemptTarget,
+      attemptBody,
+      { signal: controller.signal }
+    ).then(waitForFirstByte);
+    return { target: attemptTarget, controller, result };
+  };
+
+  const primary = attempt(target, body);
+  let timer: NodeJS.Timeout | undefined;
+  const settledInTime = await Promise.race([
+    primary.result.then(
+      () => true,
+      () => true
+    ),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), hedge.delayMs);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (settledInTime) {
+    return { response: await primary.result, target };
+  }
+
+  req.log.info(`No first byte from ${target} after ${hedge.delayMs}ms, hedging to ${hedge.target}`);
+  hedgeStats.recordHedge(scenarioType);
+  const secondary = attempt(hedge.target, hedgeBody);
+
+  let winner: { target: string; response: any };
+  try {
+    winner = await Promise.any(
+      [primary, secondary].map(({ target, result }) =>
+        result.then((response) => ({ target, response }))
+      )
+    );
+  } catch {
+    hedgeStats.recordOutcome(scenarioType, "none");
+    // Surface the routed target's error so that fallback can take over
+    throw await primary.result.catch((error) => error);
+  }
+
+  const loser = winner.target === target ? secondary : primary;
+  loser.controller.abort();
+  loser.result.then(
+    (response) => response?.body?.cancel().catch(() => {}),
+    () => {}
+  );
+  hedgeStats.recordOutcome(scenarioType, loser === secondary ? "primary" : "secondary");
+  req.log.info(`Hedged request won by ${winner.target}`);
+  return winner;
+}
+
+/**
+ * Keep a streaming response going when its upstream breaks mid-way: the
+ * request is re-issued to the next fallback target with the text sent so far
+ * as assistant prefill, and its events continue the client's stream
+ */
+function recoverInterruptedStream(
+  response: any,
+  req: FastifyRequest,
+  fastify: FastifyInstance,
+  transformer: any,
+  body: any,
+  target: string
+) {
+  if (body.stream !== true || !(response instanceof Response) || !response.ok || !response.body) {
+    return response;
+  }
+  const breakerOptions = getCircuitBreakerOptions(
+    fastify.configService.get("circuitBreaker")
+  );
+  const tried = new Set([target]);
+  let current = target;
+
+  const stream = recoverStream(response.body, async ({ text, error }) => {
+    if (req.clientSignal?.aborted) {
+      return undefined;
+    }
+    req.log.warn(
+      `Stream from ${current} was interrupted: ${error?.message || "ended before message_stop"}`
+    );
+    circuitBreakers.recordFailure(current, breakerOptions, "Stream interrupted");
+    updateStickySession(req, fastify, current, false);
+
+    const rule = getFallbackRule(
+      fastify.configService.get<any>("fallback"),
+      req.scenarioType || "default"
+    );
+    if (!matchesTrigger({ class: "stream_interrupted" }, rule.on)) {
+      return undefined;
+    }
+    const prefill = text.trimEnd();
+    const continuation = {
+      ...body,
+      messages: prefill
+        ? [...body.messages, { role: "assistant", content: prefill }]
+        : body.messages,
+    };
+
+    for (const fallbackModel of rule.models) {
+      if (tried.has(fallbackModel) || !circuitBreakers.isAvailable(fallbackModel, breakerOptions)) {
+        continue;
+      }
+      tried.add(fallbackModel);
+      try {
+        const next = await sendToTarget(req, fastify, transformer, fallbackModel, continuation);
+        if (next instanceof Response && next.ok && next.body) {
+          req.log.info(`Resuming interrupted stream on ${fallbackModel}`);
+          current = fallbackModel;
+          req.routedTarget = fallbackModel;
+          updateStickySession(req, fastify, fallbackModel, true);
+          return next.body;
+        }
+      } catch (fallbackError: any) {
+        req.log.warn(`Fallback model ${fallbackModel} failed: ${fallbackError.message}`);
+      }
+    }
+    req.log.error(`Could not resume interrupted stream for ${req.scenarioType || "default"}`);
+    return undefined;
+  });
+
+  return new Response(stream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Send a copy of the request to the shadow target through the same
+ * transformer chain and summarize its response. Never throws: failures are
+ * part of the comparison.
+ */
+async function runShadowRequest(
+  req: FastifyRequest,
+  fastify: FastifyInstance,
+  transformer: any,
+  body: any
+): Promise<ShadowResult> {
+  const options = getShadowOptions(fastify.configService.get("shadow"));
+  const target = options.target!;
+  const startedAt = Date.now();
+  try {
+    const finalResponse = await sendToTarget(req, fastify, transformer, target, body, {
+      probe: true,
+    });
+    const summary = await readResponse(finalResponse, body.stream === true);
+    return toShadowResult(target, startedAt, summary, options.maxTextLength);
+  } catch (error: any) {
+    req.log.warn(`Shadow request to ${target} failed: ${error.message}`);
+    return {
+      target,
+      latencyMs: Date.now() - startedAt,
+      toolCalls: [],
+      error: error.message,
+    };
+  }
+}
+
+/**
+ * Record the primary response next to its shadow once both are complete.
+ * The client response passes through unchanged.
+ */
+function compareWithShadow(
+  response: any,
+  req: FastifyRequest,
+  shadow: Promise<ShadowResult> | undefined,
+  target: string,
+  startedAt: number,
+  isStream: boolean,
+  fastify: FastifyInstance
+) {
+  if (!shadow || !(response instanceof Response)) {
+    return response;
+  }
+  const { maxTextLength, maxFileSize } = getShadowOptions(
+    fastify.configService.get("shadow")
+  );
+  return observeResponse(response, isStream, (summary) =>
+    saveShadowPair(
+      req,
+      shadow,
+      isStream,
+      toShadowResult(target, startedAt, summary, maxTextLength),
+      maxFileSize
+    )
+  );
+}
+
+function saveShadowPair(
+  req: FastifyRequest,
+  shadow: Promise<ShadowResult>,
+  isStream: boolean,
+  primary: ShadowResult,
+  maxFileSize: number
+) {
+  shadow
+    .then((shadowResult) =>
+      shadowStore.append(
+        {
+          time: new Date().toISOString(),
+          sessionId: req.sessionId,
+          scenarioType: req.scenarioType || "default",
+          stream: isStream,
+          primary,
+          shadow: shadowResult,
+        },
+        maxFileSize
+      )
+    )
+    .catch((error) => req.log.error(`Failed to save shadow comparison: ${error.message}`));
+}
+
+const HEALTH_CHECK_TOOL = {
+  name: "get_weather",
+  description: "Get the current weather in a city",
+  input_schema: {
+    type: "object",
+    properties: { city: { type: "string" } },
+    required: ["city"],
+  },
+};
+
+/**
+ * Send minimal real requests to a provider model through its full
+ * transformer chain: a completion, then a streamed one and one that must
+ * call a tool
+ */
+async function checkProviderHealth(
+  fastify: FastifyInstance,
+  transformer: any,
+  provider: LLMProvider,
+  model: string,
+  options: { streaming: boolean; toolCalling: boolean; timeoutMs: number }
+): Promise<ProviderHealth> {
+  const runCheck = async (
+    body: any,
+    check: (summary: ResponseSummary) => Partial<HealthCheckStep> | undefined
+  ): Promise<HealthCheckStep> => {
+    const startedAt = Date.now();
+    const probe: any = {
+      id: `health-check-${startedAt}`,
+      headers: {},
+      log: fastify.log,
+      body,
+    };
+    try {
+      const response = await sendToTarget(
+        probe,
+        fastify,
+        transformer,
+        `${provider.name},${model}`,
+        body,
+        { signal: AbortSignal.timeout(options.timeoutMs), probe: true }
+      );
+      const summary = await readResponse(response, body.stream);
+      const problem = check(summary);
+      return {
+        ok: !problem,
+        latencyMs: Date.now() - startedAt,
+        firstByteMs: summary.firstChunkAt ? summary.firstChunkAt - startedAt : undefined,
+        ...problem,
+      };
+    } catch (error: any) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        ...diagnoseError(error, provider.baseUrl),
+      };
+    }
+  };
+
+  const hasContent = (summary: ResponseSummary) =>
+    summary.text || summary.toolCalls.length || summary.stopReason
+      ? undefined
+      : {
+          cause: "invalid_response" as const,
+          error: "The response carried no message; check the transformer chain",
+        };
+  const message = {
+    max_tokens: 32,
+    messages: [{ role: "user", content: "Reply with the single word OK." }],
+  };
+
+  const health: ProviderHealth = {
+    provider: provider.name,
+    model,
+    ok: false,
+    completion: await runCheck({ ...message, stream: false }, hasContent),
+    checkedAt: new Date().toISOString(),
+  };
+  // A provider that cannot answer at all fails the other checks for the same reason
+  if (health.completion.ok) {
+    if (options.streaming) {
+      health.streaming = await runCheck({ ...message, stream: true }, hasContent);
+    }
+    if (options.toolCalling) {
+      health.toolCalling = await runCheck(
+        {
+          max_tokens: 256,
+          messages: [{ role: "user", content: "What is the weather in Paris?" }],
+          tools: [HEALTH_CHECK_TOOL],
+          tool_choice: { type: "tool", name: HEALTH_CHECK_TOOL.name },
+          stream: false,
+        },
+        (summary) =>
+          summary.toolCalls.includes(HEALTH_CHECK_TOOL.name)
+            ? undefined
+            : {
+                cause: "no_tool_call",
+                error: "The model answered without calling the tool",
+              }
+      );
+    }
+  }
+  health.ok = [health.completion, health.streaming, health.toolCalling].every(
+    (step) => !step || step.ok
+  );
+  return health;
+}
+
 /**
  * Process request transformer chain
  * Sequentially execute transformRequestOut, provider transformers, model-specific transformers
@@ -304,7 +935,8 @@ async function sendRequestToProvider(
   fastify: FastifyInstance,
   bypass: boolean,
   transformer: any,
-  context: any
+  context: any,
+  probe = false
 ) {
   const url = config.url || new URL(provider.baseUrl);
 
@@ -332,11 +964,39 @@ async function sendRequestToProvider(
     }
   }
 
+  // Proxy, TLS, timeouts and extra headers of the provider over the
+  // top-level `network` entry and the proxy settings
+  const network = getNetworkOptions(
+    provider.network,
+    fastify.configService.getNetworkConfig()
+  );
+  let networkHeaders: Record<string, string>;
+  let dispatcher: Dispatcher;
+  try {
+    networkHeaders = await resolveNetworkHeaders(network.headers);
+  } catch (error: any) {
+    throw createApiError(
+      `Could not resolve the network headers of ${provider.name}: ${error.message}`,
+      500,
+      "secret_resolution_failed"
+    );
+  }
+  try {
+    dispatcher = await connectionPools.get(provider.name, url, network);
+  } catch (error: any) {
+    throw createApiError(
+      `Invalid network settings of ${provider.name}: ${error.message}`,
+      500,
+      "network_config_error"
+    );
+  }
+
   // Send HTTP request
   // Prepare headers
   const requestHeaders: Record<string, string> = {
     Authorization: `Bearer ${provider.apiKey}`,
     ...(config?.headers || {}),
+    ...networkHeaders,
   };
 
   for (const key in requestHeaders) {
@@ -350,31 +1010,256 @@ async function sendRequestToProvider(
     }
   }
 
-  const response = await sendUnifiedRequest(
-    url,
-    requestBody,
-    {
-      httpsProxy: fastify.configService.getHttpsProxy(),
-      ...config,
-      headers: JSON.parse(JSON.stringify(requestHeaders)),
-    },
-    context,
-    fastify.log
+  // The transformer chain has used the configured key, which may be a
+  // secret reference and, with several keys, is the first one. Swap in the
+  // resolved key picked for this request into the headers that carry it:
+  // the key alone, as in x-api-key, or after a scheme, as in Authorization.
+  const keyPool: string[] = provider.apiKeys && provider.apiKeys.length > 1 ? provider.apiKeys : [];
+  let apiKey: string | undefined;
+  let headerKey = provider.apiKey;
+  const setHeaderKey = async (key: string) => {
+    let value: string;
+    try {
+      value = await resolveSecret(key);
+    } catch (error: any) {
+      throw createApiError(
+        `Could not resolve the API key of ${provider.name}: ${error.message}`,
+        500,
+        "secret_resolution_failed"
+      );
+    }
+    for (const name in requestHeaders) {
+      const current = requestHeaders[name];
+      if (!headerKey || typeof current !== "string" || !current.endsWith(headerKey)) {
+        continue;
+      }
+      const scheme = current.slice(0, current.length - headerKey.length);
+      if (scheme === "" || /^[\w-]+ $/.test(scheme)) {
+        requestHeaders[name] = `${scheme}${value}`;
+      }
+    }
+    headerKey = value;
+  };
+  const useApiKey = async (key: string) => {
+    await setHeaderKey(key);
+    apiKey = key;
+    context.req.apiKeyId = getApiKeyId(key);
+  };
+  if (keyPool.length) {
+    await useApiKey(apiKeyPools.select(provider.name, keyPool, provider.apiKeyStrategy)!);
+  } else if (isSecretRef(provider.apiKey)) {
+    await setHeaderKey(provider.apiKey);
+  }
+  const triedKeys = apiKey ? [apiKey] : [];
+
+  // Short-lived tokens, from the provider's `auth` or from a transformer
+  // such as Vertex, replace the static key. A 401 refreshes the token and
+  // the request is sent once more.
+  const tokenProvider: TokenProvider | undefined =
+    provider.tokenProvider ?? config.tokenProvider;
+  delete config.tokenProvider;
+  const useToken = async () => {
+    let token: string;
+    try {
+      token = await tokenProvider!.getToken();
+    } catch (error: any) {
+      throw createApiError(
+        `Could not get an access token for ${provider.name}: ${error.message}`,
+        502,
+        "token_fetch_failed"
+      );
+    }
+    const header = tokenProvider!.header || "Authorization";
+    for (const name in requestHeaders) {
+      if (name.toLowerCase() === header.toLowerCase()) {
+        delete requestHeaders[name];
+      }
+    }
+    requestHeaders[header] = `${tokenProvider!.prefix ?? "Bearer "}${token}`;
+  };
+  if (tokenProvider) {
+    await useToken();
+  }
+  let tokenRefreshed = false;
+
+  // Outcomes feed the circuit breaker of the routed "provider,model" target
+  const breakerTarget = `${provider.name},${context.req.body.model}`;
+  const breakerOptions = getCircuitBreakerOptions(
+    fastify.configService.get("circuitBreaker")
+  );
+  const retryOptions = getRetryOptions(
+    provider.retry,
+    fastify.configService.get("retry")
   );
 
-  // Handle request errors
-  if (!response.ok) {
-    const errorText = await response.text();
-    fastify.log.error(
-      `[provider_response_error] Error from provider(${provider.name},${requestBody.model}: ${response.status}): ${errorText}`,
+  // Wait for the client-side rate limit, using the router's token estimate.
+  // Charged once per request, not again for each retry
+  if (provider.rateLimit && !probe) {
+    await rateLimiters.acquire(
+      provider.name,
+      context.req.body.model,
+      context.req.tokenCount || 0,
+      provider.rateLimit,
+      config.signal
     );
-    throw createApiError(
+  }
+
+  // Retry transient failures on the same target before the caller moves on
+  // to the fallback list. Stops early once the circuit breaker opens.
+  let response: Response;
+  let releaseSlot: (() => void) | undefined;
+  for (let attempt = 1; ; attempt++) {
+    // Stop once the request was aborted, e.g. the losing side of a hedge
+    if (config.signal?.aborted) {
+      throw config.signal.reason ?? new Error("Aborted");
+    }
+    // Hold a slot of the provider until the response has been read
+    if (provider.maxConcurrency && !probe) {
+      releaseSlot = await concurrencyLimiters.acquire(
+        provider.name,
+        provider.maxConcurrency,
+        context.req.scenarioType || "default",
+        config.signal
+      );
+    }
+    if (!probe) {
+      circuitBreakers.onRequest(breakerTarget, breakerOptions);
+      if (apiKey) {
+        apiKeyPools.recordRequest(provider.name, apiKey);
+      }
+    }
+    try {
+      response = await sendUnifiedRequest(
+        url,
+        requestBody,
+        {
+          dispatcher,
+          proxy: getProxy(url, network),
+          ...config,
+          headers: JSON.parse(JSON.stringify(requestHeaders)),
+        },
+        context,
+        fastify.log
+      );
+    } catch (error: any) {
+      releaseSlot?.();
+      // Aborted on purpose, e.g. the losing side of a hedged request
+      if (config.signal?.aborted) {
+        throw error;
+      }
+      if (!probe) {
+        circuitBreakers.recordFailure(breakerTarget, breakerOptions, error.message);
+      }
+      const delay = retryOptions.retryNetworkErrors
+        ? getRetryDelay(attempt, retryOptions)
+        : undefined;
+      if (delay === undefined || !circuitBreakers.isAvailable(breakerTarget, breakerOptions)) {
+        throw error;
+      }
+      fastify.log.warn(
+        `Request to ${breakerTarget} failed (${error.message}), retrying in ${delay}ms (attempt ${attempt + 1}/${retryOptions.maxAttempts})`
+      );
+      await sleep(delay, config.signal);
+      continue;
+    }
+
+    if (apiKey && !probe) {
+      apiKeyPools.recordResponse(
+        provider.name,
+        apiKey,
+        response.status,
+        response.status === 429 ? getRetryAfterMs(response.headers) : undefined
+      );
+    }
+    if (response.ok) break;
+
+    // Handle request errors. Some providers echo the key they rejected.
+    let errorText: string;
+    try {
+      errorText = redactSecrets(await response.text());
+    } finally {
+      // Also when the body fails to arrive
+      releaseSlot?.();
+    }
+
+    // A rate limited or rejected key cools down; move on to another key right
+    // away, without using up a retry attempt
+    if (apiKey && apiKeyPools.isKeyFailure(response.status)) {
+      const nextKey = apiKeyPools.select(
+        provider.name,
+        keyPool,
+        provider.apiKeyStrategy,
+        triedKeys
+      );
+      if (nextKey) {
+        fastify.log.warn(
+          `Key ${getApiKeyId(apiKey)} of ${provider.name} got ${response.status}, switching to key ${getApiKeyId(nextKey)}`
+        );
+        triedKeys.push(nextKey);
+        await useApiKey(nextKey);
+        attempt--;
+        continue;
+      }
+    }
+
+    if (tokenProvider && response.status === 401 && !tokenRefreshed) {
+      fastify.log.warn(
+        `Token of ${provider.name} was rejected, fetching a new one`
+      );
+      tokenRefreshed = true;
+      tokenProvider.invalidate();
+      await useToken();
+      attempt--;
+      continue;
+    }
+
+    const error = createApiError(
       `Error from provider(${provider.name},${requestBody.model}: ${response.status}): ${errorText}`,
       response.status,
       "provider_response_error"
     );
+    if (!probe) {
+      if (isCircuitFailure(error)) {
+        circuitBreakers.recordFailure(breakerTarget, breakerOptions, `HTTP ${response.status}`);
+      } else {
+        circuitBreakers.recordSuccess(breakerTarget, breakerOptions);
+      }
+    }
+    const delay = retryOptions.retryableStatuses.includes(response.status)
+      ? getRetryDelay(attempt, retryOptions, response.headers)
+      : undefined;
+    if (delay === undefined || !circuitBreakers.isAvailable(breakerTarget, breakerOptions)) {
+      fastify.log.error(
+        `[provider_response_error] Error from provider(${provider.name},${requestBody.model}: ${response.status}): ${errorText}${apiKey ? ` (key ${getApiKeyId(apiKey)})` : ""}`,
+      );
+      throw error;
+    }
+    fastify.log.warn(
+      `Provider ${breakerTarget} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${retryOptions.maxAttempts})`
+    );
+    await sleep(delay, config.signal);
+  }
+
+  if (!response.body || response.headers.get("content-length") === "0") {
+    // Nothing left to read, so the slot is free right away
+    releaseSlot?.();
+    await response.body?.cancel().catch(() => {});
+    if (!probe) {
+      circuitBreakers.recordFailure(breakerTarget, breakerOptions, "Empty response");
+    }
+    throw createApiError(
+      `Empty response from provider(${provider.name},${requestBody.model})`,
+      502,
+      "empty_response"
+    );
   }
 
+  if (releaseSlot) {
+    response = releaseWhenRead(response, releaseSlot);
+  }
+  if (!probe) {
+    circuitBreakers.recordSuccess(breakerTarget, breakerOptions);
+  }
   return response;
 }
 
@@ -436,121 +1321,378 @@ async function processResponseTransformers(
     );
   }
 
-  return finalResponse;
-}
+  return finalResponse;
+}
+
+/**
+ * Format and return response
+ * Handle HTTP status codes, format streaming and regular responses
+ */
+function formatResponse(response: any, reply: FastifyReply, body: any) {
+  // Set HTTP status code
+  if (!response.ok) {
+    reply.code(response.status);
+  }
+
+  // Handle streaming response
+  const isStream = body.stream === true;
+  if (isStream) {
+    reply.header("Content-Type", "text/event-stream");
+    reply.header("Cache-Control", "no-cache");
+    reply.header("Connection", "keep-alive");
+    return reply.send(response.body);
+  } else {
+    // Handle regular JSON response
+    return response.json();
+  }
+}
+
+export const registerApiRoutes = async (
+  fastify: FastifyInstance
+) => {
+  // Health and info endpoints
+  fastify.get("/", async () => {
+    return { message: "LLMs API", version };
+  });
+
+  fastify.get("/health", async () => {
+    return { status: "ok", timestamp: new Date().toISOString() };
+  });
+
+  const transformersWithEndpoint =
+    fastify.transformerService.getTransformersWithEndpoint();
+
+  for (const { transformer } of transformersWithEndpoint) {
+    if (transformer.endPoint) {
+      fastify.post(
+        transformer.endPoint,
+        async (req: FastifyRequest, reply: FastifyReply) => {
+          return handleTransformerEndpoint(req, reply, fastify, transformer);
+        }
+      );
+    }
+  }
+
+  // Dry-run the router for a /v1/messages body without calling any provider
+  fastify.post("/v1/router/explain", async (req: FastifyRequest) => {
+    const body = req.body as any;
+    if (!body?.model) {
+      throw createApiError(
+        "Missing model in request body",
+        400,
+        "invalid_request"
+      );
+    }
+
+    const probe: any = {
+      id: req.id,
+      headers: req.headers,
+      log: req.log,
+      body: structuredClone(body),
+    };
+    // The custom router is user code with its own side effects; it only
+    // runs when asked for
+    const query = req.query as { customRouter?: string };
+    await router(probe, null, {
+      configService: fastify.configService,
+      tokenizerService: fastify.tokenizerService,
+      dryRun: true,
+      runCustomRouter: query?.customRouter === "run",
+    });
+
+    const scenarioType = probe.scenarioType || "default";
+    const breakerOptions = getCircuitBreakerOptions(
+      fastify.configService.get("circuitBreaker")
+    );
+    const fallbackRule = getFallbackRule(
+      fastify.configService.get<any>("fallback"),
+      scenarioType
+    );
+    const [provider, ...model] = (probe.body.model || "").split(",");
+
+    return {
+      model: probe.body.model,
+      provider,
+      providerModel: model.join(","),
+      providerFound: !!fastify.providerService.getProvider(provider),
+      sessionId: probe.sessionId,
+      tokenCount: probe.tokenCount,
+      tokenizer: probe.tokenizerUsed,
+      override: probe.routerOverride || null,
+      scenarioType,
+      rule: probe.routerRule,
+      candidates: probe.routeCandidates || [],
+      customRouter: probe.customRouter || null,
+      circuitSkipped: probe.circuitSkipped || null,
+      error: probe.routerError || null,
+      budget: probe.budget || null,
+      sticky: probe.stickyTarget || null,
+      visionSkipped: probe.visionSkipped || null,
+      modelInfo: probe.body.model
+        ? getTargetModelInfo(
+            probe.body.model,
+            fastify.configService.get<any[]>("providers"),
+            fastify.configService.get("pricing")
+          ) || null
+        : null,
+      fallback: fallbackRule.models.map((target) => ({
+        model: target,
+        available: circuitBreakers.isAvailable(target, breakerOptions),
+      })),
+      fallbackTriggers: fallbackRule.on,
+    };
+  });
+
+  fastify.get("/circuit-breakers", async () => {
+    const options = getCircuitBreakerOptions(
+      fastify.configService.get("circuitBreaker")
+    );
+    return {
+      enabled: options.enabled,
+      breakers: circuitBreakers.getSnapshots(options),
+    };
+  });
+
+  fastify.post(
+    "/circuit-breakers/reset",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: { target: { type: "string" } },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { target?: string } }>) => {
+      circuitBreakers.reset(request.body?.target);
+      return { message: "Circuit breakers reset successfully" };
+    }
+  );
+
+  fastify.get("/latency-stats", async () => {
+    const options = getLatencyOptions(fastify.configService.get("latency"));
+    return {
+      ...options,
+      stats: latencyStats.getSnapshots(options).map((stats) => ({
+        ...stats,
+        measured: stats.recentSamples >= options.minSamples,
+        withinLimits: latencyStats.isWithinLimits(stats.target, options),
+      })),
+    };
+  });
+
+  fastify.post(
+    "/latency-stats/reset",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: { target: { type: "string" } },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { target?: string } }>) => {
+      latencyStats.reset(request.body?.target);
+      return { message: "Latency stats reset successfully" };
+    }
+  );
+
+  fastify.get("/hedging-stats", async () => {
+    return {
+      hedging: fastify.configService.get("hedging") || {},
+      scenarios: hedgeStats.getSnapshots(),
+    };
+  });
+
+  fastify.post("/hedging-stats/reset", async () => {
+    hedgeStats.reset();
+    return { message: "Hedging stats reset successfully" };
+  });
 
-/**
- * Format and return response
- * Handle HTTP status codes, format streaming and regular responses
- */
-function formatResponse(response: any, reply: FastifyReply, body: any) {
-  // Set HTTP status code
-  if (!response.ok) {
-    reply.code(response.status);
-  }
+  fastify.get("/connection-pools", async () => {
+    return { pools: connectionPools.getSnapshots() };
+  });
 
-  // Handle streaming response
-  const isStream = body.stream === true;
-  if (isStream) {
-    reply.header("Content-Type", "text/event-stream");
-    reply.header("Cache-Control", "no-cache");
-    reply.header("Connection", "keep-alive");
-    return reply.send(response.body);
-  } else {
-    // Handle regular JSON response
-    return response.json();
-  }
-}
+  fastify.get("/concurrency", async () => {
+    return { providers: concurrencyLimiters.getSnapshots() };
+  });
 
-export const registerApiRoutes = async (
-  fastify: FastifyInstance
-) => {
-  // Health and info endpoints
-  fastify.get("/", async () => {
-    return { message: "LLMs API", version };
+  fastify.get("/rate-limits", async () => {
+    return {
+      limits: rateLimiters.getSnapshots(),
+      queues: rateLimiters.getQueueSnapshots(),
+    };
   });
 
-  fastify.get("/health", async () => {
-    return { status: "ok", timestamp: new Date().toISOString() };
+  fastify.get("/api-keys", async () => {
+    const providers = fastify.providerService
+      .getProviders()
+      .filter((provider) => provider.apiKeys && provider.apiKeys.length > 1);
+    return {
+      providers: providers.map((provider) => ({
+        provider: provider.name,
+        strategy: provider.apiKeyStrategy || "round-robin",
+        keys: apiKeyPools.getSnapshots(provider.name, provider.apiKeys!),
+      })),
+    };
   });
 
-  const transformersWithEndpoint =
-    fastify.transformerService.getTransformersWithEndpoint();
+  fastify.post(
+    "/api-keys/reset",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: { provider: { type: "string" } },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: { provider?: string } }>) => {
+      apiKeyPools.reset(request.body?.provider);
+      return { message: "API key cool-downs reset successfully" };
+    }
+  );
 
-  for (const { transformer } of transformersWithEndpoint) {
-    if (transformer.endPoint) {
-      fastify.post(
-        transformer.endPoint,
-        async (req: FastifyRequest, reply: FastifyReply) => {
-          return handleTransformerEndpoint(req, reply, fastify, transformer);
-        }
-      );
+  fastify.get("/sticky-sessions", async () => {
+    const options = getStickySessionOptions(
+      fastify.configService.get("stickySessions")
+    );
+    return {
+      enabled: options.enabled,
+      ttlMs: options.ttlMs,
+      pins: stickySessions.list(),
+    };
+  });
+
+  fastify.delete("/sticky-sessions", async () => {
+    const removed = stickySessions.clear();
+    return { message: "Sticky sessions cleared successfully", removed };
+  });
+
+  fastify.delete(
+    "/sticky-sessions/:sessionId",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { sessionId: { type: "string" } },
+          required: ["sessionId"],
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { sessionId: string } }>) => {
+      const removed = stickySessions.clear(request.params.sessionId);
+      if (!removed) {
+        throw createApiError("Sticky session not found", 404, "sticky_session_not_found");
+      }
+      return { message: "Sticky session removed successfully", removed };
     }
-  }
+  );
+
+  fastify.get("/budget", async () => {
+    const config = fastify.configService.get<BudgetConfig>("budget");
+    return {
+      enabled: isBudgetEnabled(config),
+      limits: {
+        session: config?.session ?? null,
+        projectDaily: config?.projectDaily ?? null,
+        daily: config?.daily ?? null,
+      },
+      spend: budgetTracker.getSummary(),
+    };
+  });
 
   fastify.post(
-    "/providers",
+    "/budget/reset",
     {
       schema: {
         body: {
           type: "object",
           properties: {
-            id: { type: "string" },
-            name: { type: "string" },
-            type: { type: "string", enum: ["openai", "anthropic"] },
-            baseUrl: { type: "string" },
-            apiKey: { type: "string" },
-            models: { type: "array", items: { type: "string" } },
+            scope: { type: "string", enum: ["session", "project", "daily"] },
+            key: { type: "string" },
           },
-          required: ["id", "name", "type", "baseUrl", "apiKey", "models"],
         },
       },
     },
     async (
-      request: FastifyRequest<{ Body: RegisterProviderRequest }>,
-      reply: FastifyReply
+      request: FastifyRequest<{
+        Body: { scope?: "session" | "project" | "daily"; key?: string };
+      }>
     ) => {
-      // Validation
-      const { name, baseUrl, apiKey, models } = request.body;
+      budgetTracker.reset(request.body?.scope, request.body?.key);
+      return { message: "Budget spend reset successfully" };
+    }
+  );
 
-      if (!name?.trim()) {
-        throw createApiError(
-          "Provider name is required",
-          400,
-          "invalid_request"
-        );
-      }
+  fastify.get("/shadow/summary", async () => {
+    const options = getShadowOptions(fastify.configService.get("shadow"));
+    return {
+      enabled: options.enabled,
+      target: options.target ?? null,
+      sampleRate: options.sampleRate,
+      pairs: await shadowStore.summarize(),
+    };
+  });
 
-      if (!baseUrl || !isValidUrl(baseUrl)) {
-        throw createApiError(
-          "Valid base URL is required",
-          400,
-          "invalid_request"
-        );
-      }
+  fastify.get(
+    "/shadow/records",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", minimum: 1, default: 50 },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: { limit?: number } }>) => {
+      return { records: await shadowStore.read(request.query.limit) };
+    }
+  );
 
-      if (!apiKey?.trim()) {
-        throw createApiError("API key is required", 400, "invalid_request");
-      }
+  fastify.delete("/shadow", async () => {
+    await shadowStore.clear();
+    return { message: "Shadow comparisons cleared successfully" };
+  });
 
-      if (!models || !Array.isArray(models) || models.length === 0) {
-        throw createApiError(
-          "At least one model is required",
-          400,
-          "invalid_request"
-        );
+  fastify.post(
+    "/providers",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: PROVIDER_PROPERTIES,
+          required: ["name", "models"],
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ProviderRequestBody }>) => {
+      const providerConfig = toConfigProvider(request.body);
+      rejectLocalSecretRefs(fastify, providerConfig);
+      const problem =
+        fastify.providerService.validateProviderConfig(providerConfig);
+      if (problem) {
+        throw createApiError(problem, 400, "invalid_request");
       }
 
       // Check if provider already exists
-      if (fastify.providerService.getProvider(request.body.name)) {
+      if (
+        getConfiguredProvider(fastify, providerConfig.name) ||
+        fastify.providerService.getProvider(providerConfig.name)
+      ) {
         throw createApiError(
-          `Provider with name '${request.body.name}' already exists`,
+          `Provider with name '${providerConfig.name}' already exists`,
           400,
           "provider_exists"
         );
       }
 
-      return fastify.providerService.registerProvider(request.body);
+      await saveProviders(fastify, (providers) => [...providers, providerConfig]);
+      return (
+        fastify.providerService.getProvider(providerConfig.name) ?? providerConfig
+      );
     }
   );
 
@@ -591,32 +1733,50 @@ export const registerApiRoutes = async (
         },
         body: {
           type: "object",
-          properties: {
-            name: { type: "string" },
-            type: { type: "string", enum: ["openai", "anthropic"] },
-            baseUrl: { type: "string" },
-            apiKey: { type: "string" },
-            models: { type: "array", items: { type: "string" } },
-            enabled: { type: "boolean" },
-          },
+          properties: PROVIDER_PROPERTIES,
         },
       },
     },
     async (
       request: FastifyRequest<{
         Params: { id: string };
-        Body: Partial<LLMProvider>;
-      }>,
-      reply
+        Body: Partial<ProviderRequestBody>;
+      }>
     ) => {
-      const provider = fastify.providerService.updateProvider(
-        request.params.id,
-        request.body
-      );
-      if (!provider) {
+      const { id } = request.params;
+      const existing = getConfiguredProvider(fastify, id);
+      if (!existing) {
         throw createApiError("Provider not found", 404, "provider_not_found");
       }
-      return provider;
+
+      const updates = toConfigProvider(request.body);
+      rejectLocalSecretRefs(fastify, updates, findLocalSecretRefs(existing));
+      const providerConfig = { ...existing, ...updates };
+      const problem =
+        fastify.providerService.validateProviderConfig(providerConfig);
+      if (problem) {
+        throw createApiError(problem, 400, "invalid_request");
+      }
+      if (
+        providerConfig.name !== id &&
+        getConfiguredProvider(fastify, providerConfig.name)
+      ) {
+        throw createApiError(
+          `Provider with name '${providerConfig.name}' already exists`,
+          400,
+          "provider_exists"
+        );
+      }
+
+      // Merged separately into the file entry, which keeps its env var placeholders
+      await saveProviders(fastify, (providers) =>
+        providers.map((provider) =>
+          provider.name === id ? { ...provider, ...updates } : provider
+        )
+      );
+      return (
+        fastify.providerService.getProvider(providerConfig.name) ?? providerConfig
+      );
     }
   );
 
@@ -632,16 +1792,156 @@ export const registerApiRoutes = async (
       },
     },
     async (request: FastifyRequest<{ Params: { id: string } }>) => {
-      const success = fastify.providerService.deleteProvider(
-        request.params.id
-      );
-      if (!success) {
+      const { id } = request.params;
+      if (!getConfiguredProvider(fastify, id)) {
         throw createApiError("Provider not found", 404, "provider_not_found");
       }
+      await saveProviders(fastify, (providers) =>
+        providers.filter((provider) => provider.name !== id)
+      );
       return { message: "Provider deleted successfully" };
     }
   );
 
+  fastify.get(
+    "/providers/:id/health",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            model: { type: "string" },
+            streaming: { type: "boolean" },
+            tools: { type: "boolean" },
+            timeoutMs: { type: "integer", minimum: 1 },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Querystring: {
+          model?: string;
+          streaming?: boolean;
+          tools?: boolean;
+          timeoutMs?: number;
+        };
+      }>
+    ) => {
+      const provider = fastify.providerService.getProvider(request.params.id);
+      if (!provider) {
+        throw createApiError("Provider not found", 404, "provider_not_found");
+      }
+      const model = request.query.model || provider.models[0];
+      if (!model) {
+        throw createApiError(
+          "The provider has no model to check",
+          400,
+          "invalid_request"
+        );
+      }
+      const messagesTransformer = transformersWithEndpoint.find(
+        ({ transformer }) => transformer.endPoint === "/v1/messages"
+      )?.transformer;
+      if (!messagesTransformer) {
+        throw createApiError(
+          "No transformer serves /v1/messages",
+          500,
+          "transformer_not_found"
+        );
+      }
+      return checkProviderHealth(fastify, messagesTransformer, provider, model, {
+        streaming: request.query.streaming !== false,
+        toolCalling: request.query.tools !== false,
+        timeoutMs: request.query.timeoutMs || 30 * 1000,
+      });
+    }
+  );
+
+  fastify.get(
+    "/providers/:id/models",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: { id: string } }>) => {
+      const providerConfig = getConfiguredProvider(fastify, request.params.id);
+      if (!providerConfig) {
+        throw createApiError("Provider not found", 404, "provider_not_found");
+      }
+      const models = await listProviderModels(providerConfig);
+      return {
+        provider: providerConfig.name,
+        url: getModelListUrl(providerConfig),
+        models,
+        diff: diffModels(providerConfig.models || [], models),
+      };
+    }
+  );
+
+  fastify.post(
+    "/providers/:id/sync",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: { id: { type: "string" } },
+          required: ["id"],
+        },
+        body: {
+          type: "object",
+          properties: { prune: { type: "boolean" } },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: { id: string };
+        Body: { prune?: boolean };
+      }>
+    ) => {
+      const { id } = request.params;
+      const providerConfig = getConfiguredProvider(fastify, id);
+      if (!providerConfig) {
+        throw createApiError("Provider not found", 404, "provider_not_found");
+      }
+      const prune = request.body?.prune === true;
+      const models = await listProviderModels(providerConfig);
+      const diff = diffModels(providerConfig.models || [], models);
+      if (prune && models.length === 0) {
+        throw createApiError(
+          "The provider lists none of its models, refusing to remove them all",
+          400,
+          "invalid_request"
+        );
+      }
+
+      await saveProviders(fastify, (providers) =>
+        providers.map((provider) =>
+          provider.name === id
+            ? applyDiscoveredModels(provider, models, { prune })
+            : provider
+        )
+      );
+      return {
+        provider: id,
+        diff: prune ? diff : { ...diff, removed: [] },
+        models: getConfiguredProvider(fastify, id)!.models,
+      };
+    }
+  );
+
   fastify.patch(
     "/providers/:id/toggle",
     {
@@ -662,31 +1962,126 @@ export const registerApiRoutes = async (
       request: FastifyRequest<{
         Params: { id: string };
         Body: { enabled: boolean };
-      }>,
-      reply
+      }>
     ) => {
-      const success = fastify.providerService.toggleProvider(
-        request.params.id,
-        request.body.enabled
-      );
-      if (!success) {
+      const { id } = request.params;
+      const { enabled } = request.body;
+      if (!getConfiguredProvider(fastify, id)) {
         throw createApiError("Provider not found", 404, "provider_not_found");
       }
+      await saveProviders(fastify, (providers) =>
+        providers.map((provider) => {
+          if (provider.name !== id) return provider;
+          const { enabled: _, ...rest } = provider;
+          return enabled ? rest : { ...rest, enabled: false };
+        })
+      );
       return {
-        message: `Provider ${
-          request.body.enabled ? "enabled" : "disabled"
-        } successfully`,
+        message: `Provider ${enabled ? "enabled" : "disabled"} successfully`,
       };
     }
   );
 };
 
-// Helper function
-function isValidUrl(url: string): boolean {
+// Provider entry as accepted by the provider routes: the config file shape,
+// plus the former camelCase fields
+type ProviderRequestBody = ConfigProvider & { baseUrl?: string; apiKey?: string };
+
+const PROVIDER_PROPERTIES = {
+  name: { type: "string" },
+  api_base_url: { type: "string" },
+  api_key: { type: "string" },
+  api_keys: { type: "array", items: { type: "string" } },
+  api_key_strategy: { type: "string", enum: ["round-robin", "least-used"] },
+  models: { type: "array", items: { type: "string" } },
+  transformer: { type: "object" },
+  tokenizer: { type: "object" },
+  modelInfo: { type: "object" },
+  retry: { type: "object" },
+  enabled: { type: "boolean" },
+  discovery: { type: "object" },
+  auth: { type: "object" },
+  rateLimit: { type: "object" },
+  network: { type: "object" },
+  maxConcurrency: { type: "integer", minimum: 1 },
+  baseUrl: { type: "string" },
+  apiKey: { type: "string" },
+};
+
+function toConfigProvider(body: Partial<ProviderRequestBody>): ConfigProvider {
+  const { baseUrl, apiKey, ...providerConfig } = body as ProviderRequestBody;
+  if (baseUrl && !providerConfig.api_base_url) {
+    providerConfig.api_base_url = baseUrl;
+  }
+  if (apiKey && !providerConfig.api_key) {
+    providerConfig.api_key = apiKey;
+  }
+  return providerConfig;
+}
+
+function getConfiguredProvider(
+  fastify: FastifyInstance,
+  name: string
+): ConfigProvider | undefined {
+  return (fastify.configService.get<ConfigProvider[]>("providers") || []).find(
+    (provider) => provider.name === name
+  );
+}
+
+/**
+ * Refuse `file:` and `cmd:` secret references sent over HTTP, other than
+ * those `allowed` because the config file has them already: resolving them
+ * reads files and runs commands on this machine. The config file can allow
+ * them with `allowSecretRefsOverHttp`.
+ */
+function rejectLocalSecretRefs(
+  fastify: FastifyInstance,
+  value: any,
+  allowed: string[] = []
+) {
+  if (fastify.configService.get("allowSecretRefsOverHttp") === true) return;
+  if (findLocalSecretRefs(value).some((ref) => !allowed.includes(ref))) {
+    throw createApiError(
+      "file: and cmd: secret references can only be added in the config file",
+      400,
+      "invalid_request"
+    );
+  }
+}
+
+async function listProviderModels(
+  providerConfig: ConfigProvider
+): Promise<DiscoveredModel[]> {
   try {
-    new URL(url);
-    return true;
-  } catch {
-    return false;
+    return await discoverModels(providerConfig);
+  } catch (error: any) {
+    throw createApiError(error.message, 502, "model_discovery_failed");
+  }
+}
+
+/**
+ * Apply a change to the configured providers. It is written through to the
+ * config file, which is backed up first, and emitted as a config change, on
+ * which the provider service registers the providers again.
+ */
+async function saveProviders(
+  fastify: FastifyInstance,
+  update: (providers: ConfigProvider[]) => ConfigProvider[]
+) {
+  const configService = fastify.configService;
+  const fileKey = configService.has("Providers") ? "Providers" : "providers";
+  try {
+    await configService.persist(
+      "providers",
+      (providers) => update(Array.isArray(providers) ? providers : []),
+      fileKey
+    );
+  } catch (error: any) {
+    throw createApiError(
+      `Failed to save the config file: ${error.message}`,
+      500,
+      "config_write_failed"
+    );
   }
 }
+
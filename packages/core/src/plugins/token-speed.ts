@@ -3,6 +3,7 @@ import { CCRPlugin, CCRPluginOptions } from './types';
 import { SSEParserTransform } from '../utils/sse';
 import { OutputHandlerConfig, OutputOptions, outputManager } from './output';
 import { ITokenizer, TokenizerConfig } from '../types/tokenizer';
+import { latencyStats } from '../utils/latencyStats';
 
 /**
  * Token statistics interface
@@ -308,6 +309,8 @@ export const tokenSpeedPlugin: CCRPlugin = {
                   outputTimer = null;
                 }
 
+                recordLatency(request, stats);
+
                 await doOutput(true);
 
                 requestStats.delete(requestId);
@@ -398,6 +401,22 @@ export const tokenSpeedPlugin: CCRPlugin = {
   }),
 };
 
+/**
+ * Feed the rolling per-model stats used for latency-aware routing
+ */
+function recordLatency(request: any, stats: TokenStats) {
+  const target = request.routedTarget ||
+    (request.provider ? `${request.provider},${request.body?.model}` : undefined);
+  if (!target || stats.timeToFirstToken === undefined) return;
+
+  // Generation speed, excluding the wait for the first token
+  const duration = (stats.lastTokenTime - (stats.firstTokenTime ?? stats.startTime)) / 1000;
+  latencyStats.record(target, {
+    ttftMs: stats.timeToFirstToken,
+    tokensPerSecond: duration > 0 && stats.tokenCount > 0 ? stats.tokenCount / duration : undefined,
+  });
+}
+
 /**
  * Estimate token count (fallback method)
  */
@@ -33,6 +33,9 @@ import { TransformerService } from "./services/transformer";
 import { TokenizerService } from "./services/tokenizer";
 import { router, calculateTokenCount, searchProjectBySession } from "./utils/router";
 import { sessionUsageCache } from "./utils/cache";
+import { loadBalancer } from "./utils/loadBalancer";
+import type { CustomRouterResult } from "./utils/customRouter";
+import { budgetTracker, type BudgetCheck } from "./utils/budget";
 
 // Extend FastifyRequest to include custom properties
 declare module "fastify" {
@@ -40,6 +43,25 @@ declare module "fastify" {
     provider?: string;
     model?: string;
     scenarioType?: string;
+    routerRule?: string;
+    routeCandidates?: string[];
+    customRouter?: CustomRouterResult;
+    tokenCount?: number;
+    tokenizerUsed?: string;
+    routerOverride?: { scope: "session" | "project"; path: string };
+    circuitSkipped?: string;
+    visionSkipped?: string;
+    stickyTarget?: string;
+    // Fingerprint of the key the request was sent with, for providers with api_keys
+    apiKeyId?: string;
+    // "provider,model" that actually served the request, after fallback
+    routedTarget?: string;
+    // Aborted when the client disconnects before the response is complete
+    clientSignal?: AbortSignal;
+    routerError?: string;
+    sessionId?: string;
+    project?: string | null;
+    budget?: BudgetCheck & { downgradedFrom?: string };
   }
   interface FastifyInstance {
     _server?: Server;
@@ -264,13 +286,43 @@ class Server {
 // Export for external use
 export default Server;
 export { sessionUsageCache };
+export { loadBalancer };
+export { budgetTracker };
+export { latencyStats } from "./utils/latencyStats";
+export { shadowStore } from "./utils/shadow";
+export { hedgeStats } from "./utils/hedging";
+export { apiKeyPools, getApiKeyId } from "./utils/apiKeyPool";
+export { RefreshableTokenProvider, createTokenProvider, googleCloudTokens } from "./utils/tokenProvider";
+export { rateLimiters } from "./utils/rateLimiter";
+export { concurrencyLimiters, SCENARIO_PRIORITIES } from "./utils/concurrencyLimiter";
+export { connectionPools, getNetworkOptions, getProxy } from "./utils/network";
+export { signAwsRequest } from "./utils/sigv4";
+export { EventStreamDecoder, encodeEventStreamMessage } from "./utils/eventStream";
 export { router };
 export { calculateTokenCount };
 export { searchProjectBySession };
-export type { RouterScenarioType, RouterFallbackConfig } from "./utils/router";
+export type { RouterScenarioType, RouterFallbackConfig, RouterDecision } from "./utils/router";
+export type { RouterRuleConfig, RouterRuleMatch } from "./utils/routerRules";
+export type { CustomRouterContext, CustomRouterFunction, CustomRouterResult } from "./utils/customRouter";
+export type { LoadBalanceStrategy, WeightedTarget, RouterTargetSpec } from "./utils/loadBalancer";
+export type { BudgetConfig, BudgetCheck } from "./utils/budget";
+export type { FallbackRule, FallbackEntry, ErrorClass } from "./utils/fallback";
+export type { StickySessionOptions, StickySessionPin } from "./utils/stickySessions";
+export type { LatencyOptions, LatencySnapshot } from "./utils/latencyStats";
+export type { ShadowOptions, ShadowRecord, ShadowSummary } from "./utils/shadow";
+export type { HedgeOptions, HedgeSnapshot } from "./utils/hedging";
+export type { ApiKeyStrategy, ApiKeySnapshot } from "./utils/apiKeyPool";
+export type { AccessToken, TokenProvider, TokenAuthConfig } from "./utils/tokenProvider";
+export type { RateLimitOptions, RateLimitConfig, RateLimitSnapshot, RateLimitQueueSnapshot } from "./utils/rateLimiter";
+export type { ConcurrencySnapshot } from "./utils/concurrencyLimiter";
+export type { NetworkOptions, ConnectionPoolSnapshot } from "./utils/network";
+export type { AwsCredentials, SignableRequest, RequestSigner } from "./utils/sigv4";
+export type { EventStreamMessage } from "./utils/eventStream";
+export type { HealthCheckCause, HealthCheckStep, ProviderHealth } from "./utils/healthCheck";
+export type { ModelPrice } from "./utils/pricing";
 export { ConfigService } from "./services/config";
 export { ProviderService } from "./services/provider";
 export { TransformerService } from "./services/transformer";
 export { TokenizerService } from "./services/tokenizer";
 export { pluginManager, tokenSpeedPlugin, getTokenSpeedStats, getGlobalTokenSpeedStats, CCRPlugin, CCRPluginOptions, PluginMetadata } from "./plugins";
-export { SSEParserTransform, SSESerializerTransform, rewriteStream } from "./utils/sse";
+export { SSEParserTransform, SSESerializerTransform, rewriteStream, recoverStream } from "./utils/sse";
@@ -1,5 +1,7 @@
 import { readFileSync, existsSync } from "fs";
-import { join } from "path";
+import { copyFile, readdir, rename, stat, unlink, writeFile } from "fs/promises";
+import { EventEmitter } from "events";
+import { basename, dirname, join } from "path";
 import { config } from "dotenv";
 import JSON5 from 'json5';
 
@@ -16,15 +18,21 @@ export interface AppConfig {
   [key: string]: any;
 }
 
-export class ConfigService {
+// Backups of the JSON config file kept next to it
+const MAX_BACKUPS = 3;
+
+export class ConfigService extends EventEmitter {
   private config: AppConfig = {};
   private options: ConfigOptions;
+  // Persists run one after another, each on the file the previous one wrote
+  private persisting: Promise<void> = Promise.resolve();
 
   constructor(
     options: ConfigOptions = {
       jsonPath: "./config.json",
     }
   ) {
+    super();
     this.options = {
       envPath: options.envPath || ".env",
       jsonPath: options.jsonPath,
@@ -62,12 +70,16 @@ export class ConfigService {
     }
   }
 
-  private loadJsonConfig(): void {
-    if (!this.options.jsonPath) return;
-
-    const jsonPath = this.isAbsolutePath(this.options.jsonPath)
+  private getJsonPath(): string | undefined {
+    if (!this.options.useJsonFile || !this.options.jsonPath) return undefined;
+    return this.isAbsolutePath(this.options.jsonPath)
       ? this.options.jsonPath
       : join(process.cwd(), this.options.jsonPath);
+  }
+
+  private loadJsonConfig(): void {
+    const jsonPath = this.getJsonPath();
+    if (!jsonPath) return;
 
     if (existsSync(jsonPath)) {
       try {
@@ -142,6 +154,21 @@ export class ConfigService {
     );
   }
 
+  public getNoProxy(): string | undefined {
+    return this.get("NO_PROXY") || this.get("no_proxy") || this.get("noProxy");
+  }
+
+  /**
+   * Top-level `network` entry, over the proxy settings
+   */
+  public getNetworkConfig(): AppConfig {
+    return {
+      proxy: this.getHttpsProxy(),
+      noProxy: this.getNoProxy(),
+      ...this.get("network"),
+    };
+  }
+
   public has(key: keyof AppConfig): boolean {
     return this.config[key] !== undefined;
   }
@@ -150,6 +177,75 @@ export class ConfigService {
     this.config[key] = value;
   }
 
+  /**
+   * Change a config entry and write it through to the JSON config file, when
+   * the config was loaded from one. `fileKey` is the name of the entry in the
+   * file if it differs; `update` is applied to the file entry and to the
+   * loaded ones separately. The previous file is kept as a timestamped backup.
+   * The file is written as plain JSON, so JSON5 comments are only left in the
+   * backup. Emits `change` with the key and its new value.
+   */
+  public persist(
+    key: keyof AppConfig,
+    update: (value: any) => any,
+    fileKey: keyof AppConfig = key
+  ): Promise<void> {
+    const run = this.persisting.then(async () => {
+      const jsonPath = this.getJsonPath();
+      if (jsonPath && existsSync(jsonPath)) {
+        // Start from the file rather than the loaded config so that env var
+        // placeholders and entries of other keys are written back untouched
+        const fileConfig = JSON5.parse(readFileSync(jsonPath, "utf-8"));
+        fileConfig[fileKey] = update(fileConfig[fileKey]);
+        await this.backupJsonConfig(jsonPath);
+        await this.writeJsonConfig(jsonPath, fileConfig);
+      }
+
+      // The loaded entries hold resolved values, never the file's placeholders
+      if (fileKey !== key && this.has(fileKey)) {
+        this.config[fileKey] = update(this.config[fileKey]);
+      }
+      this.config[key] = update(this.config[key]);
+      this.emit("change", key, this.config[key]);
+    });
+    this.persisting = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Replace the file in one step, so a crash or a reader never sees it half
+   * written. The file keeps its permissions, it may hold API keys.
+   */
+  private async writeJsonConfig(jsonPath: string, value: AppConfig): Promise<void> {
+    const { mode } = await stat(jsonPath);
+    const tempPath = `${jsonPath}.${process.pid}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(value, null, 2), { mode });
+      await rename(tempPath, jsonPath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+
+  private async backupJsonConfig(jsonPath: string): Promise<void> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    await copyFile(jsonPath, `${jsonPath}.${timestamp}.bak`);
+
+    try {
+      const fileName = basename(jsonPath);
+      const backups = (await readdir(dirname(jsonPath)))
+        .filter((file) => file.startsWith(`${fileName}.`) && file.endsWith(".bak"))
+        .sort()
+        .reverse();
+      for (const backup of backups.slice(MAX_BACKUPS)) {
+        await unlink(join(dirname(jsonPath), backup));
+      }
+    } catch (error) {
+      console.warn("Failed to clean up old config backups:", error);
+    }
+  }
+
   public reload(): void {
     this.config = {};
     this.loadConfig();
@@ -7,14 +7,25 @@ import {
   ConfigProvider,
 } from "../types/llm";
 import { ConfigService } from "./config"; 
+import { createTokenProvider } from "@/utils/tokenProvider";
+import { PROXY_PROTOCOLS, connectionPools, getNetworkOptions } from "@/utils/network";
+import { circuitBreakers } from "@/utils/circuitBreaker";
+import { apiKeyPools } from "@/utils/apiKeyPool";
 import { TransformerService } from "./transformer";
 
 export class ProviderService {
   private providers: Map<string, LLMProvider> = new Map();
   private modelRoutes: Map<string, ModelRoute> = new Map();
+  // Config entry each provider was registered from, to spot changed ones
+  private registeredConfigs: Map<string, string> = new Map();
 
   constructor(private readonly configService: ConfigService, private readonly transformerService: TransformerService, private readonly logger: any) {
     this.initializeCustomProviders();
+    this.configService.on("change", (key: string) => {
+      if (key === "providers") {
+        this.syncFromConfig();
+      }
+    });
   }
 
   private initializeCustomProviders() {
@@ -32,70 +43,212 @@ export class ProviderService {
         if (
           !providerConfig.name ||
           !providerConfig.api_base_url ||
-          !providerConfig.api_key
+          !(providerConfig.api_key || providerConfig.api_keys?.length || providerConfig.auth) ||
+          providerConfig.enabled === false
         ) {
           return;
         }
 
-        const transformer: LLMProvider["transformer"] = {}
-
-        if (providerConfig.transformer) {
-          Object.keys(providerConfig.transformer).forEach(key => {
-            if (key === 'use') {
-              if (Array.isArray(providerConfig.transformer.use)) {
-                transformer.use = providerConfig.transformer.use.map((transformer) => {
-                  if (Array.isArray(transformer) && typeof transformer[0] === 'string') {
-                    const Constructor = this.transformerService.getTransformer(transformer[0]);
-                    if (Constructor) {
-                      return new (Constructor as TransformerConstructor)(transformer[1]);
-                    }
-                  }
-                  if (typeof transformer === 'string') {
-                    const transformerInstance = this.transformerService.getTransformer(transformer);
-                    if (typeof transformerInstance === 'function') {
-                      return new transformerInstance();
-                    }
-                    return transformerInstance;
-                  }
-                }).filter((transformer) => typeof transformer !== 'undefined');
+        this.registerFromConfig(providerConfig);
+
+        this.logger.info(`${providerConfig.name} provider registered`);
+      } catch (error) {
+        this.logger.error(`${providerConfig.name} provider registered error: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Bring the registered providers in line with the `providers` config after
+   * it changed: removed, disabled and edited providers are unregistered, and
+   * new or edited ones registered again. Circuit breakers and key cool-downs
+   * of a provider whose entry changed start over; connection pools of a
+   * removed one are closed.
+   */
+  private syncFromConfig() {
+    const providersConfig =
+      this.configService.get<ConfigProvider[]>("providers") || [];
+    const entries = new Map(
+      providersConfig
+        .filter((providerConfig) => providerConfig.enabled !== false)
+        .map((providerConfig) => [providerConfig.name, providerConfig])
+    );
+
+    for (const [name, registered] of Array.from(this.registeredConfigs)) {
+      const entry = entries.get(name);
+      if (entry && JSON.stringify(entry) === registered) {
+        entries.delete(name);
+        continue;
+      }
+      this.providers.get(name)?.models.forEach((model) => {
+        circuitBreakers.reset(`${name},${model}`);
+      });
+      apiKeyPools.reset(name);
+      this.deleteProvider(name);
+      if (!entry) {
+        connectionPools.remove(name);
+        this.logger.info(`${name} provider unregistered`);
+      }
+    }
+
+    this.initializeFromProvidersArray(Array.from(entries.values()));
+  }
+
+  /**
+   * Register a provider from its entry in the config file, resolving its
+   * transformer chains
+   */
+  registerFromConfig(providerConfig: ConfigProvider): LLMProvider {
+    const transformer: LLMProvider["transformer"] = {}
+
+    if (providerConfig.transformer) {
+      Object.keys(providerConfig.transformer).forEach(key => {
+        if (key === 'use') {
+          if (Array.isArray(providerConfig.transformer.use)) {
+            transformer.use = providerConfig.transformer.use.map((transformer) => {
+              if (Array.isArray(transformer) && typeof transformer[0] === 'string') {
+                const Constructor = this.transformerService.getTransformer(transformer[0]);
+                if (Constructor) {
+                  return new (Constructor as TransformerConstructor)(transformer[1]);
+                }
               }
-            } else {
-              if (Array.isArray(providerConfig.transformer[key]?.use)) {
-                transformer[key] = {
-                  use: providerConfig.transformer[key].use.map((transformer) => {
-                    if (Array.isArray(transformer) && typeof transformer[0] === 'string') {
-                      const Constructor = this.transformerService.getTransformer(transformer[0]);
-                      if (Constructor) {
-                        return new (Constructor as TransformerConstructor)(transformer[1]);
-                      }
-                    }
-                    if (typeof transformer === 'string') {
-                      const transformerInstance = this.transformerService.getTransformer(transformer);
-                      if (typeof transformerInstance === 'function') {
-                        return new transformerInstance();
-                      }
-                      return transformerInstance;
-                    }
-                  }).filter((transformer) => typeof transformer !== 'undefined')
+              if (typeof transformer === 'string') {
+                const transformerInstance = this.transformerService.getTransformer(transformer);
+                if (typeof transformerInstance === 'function') {
+                  return new transformerInstance();
                 }
+                return transformerInstance;
               }
+            }).filter((transformer) => typeof transformer !== 'undefined');
+          }
+        } else {
+          if (Array.isArray(providerConfig.transformer[key]?.use)) {
+            transformer[key] = {
+              use: providerConfig.transformer[key].use.map((transformer) => {
+                if (Array.isArray(transformer) && typeof transformer[0] === 'string') {
+                  const Constructor = this.transformerService.getTransformer(transformer[0]);
+                  if (Constructor) {
+                    return new (Constructor as TransformerConstructor)(transformer[1]);
+                  }
+                }
+                if (typeof transformer === 'string') {
+                  const transformerInstance = this.transformerService.getTransformer(transformer);
+                  if (typeof transformerInstance === 'function') {
+                    return new transformerInstance();
+                  }
+                  return transformerInstance;
+                }
+              }).filter((transformer) => typeof transformer !== 'undefined')
             }
-          })
+          }
         }
+      })
+    }
 
-        this.registerProvider({
-          name: providerConfig.name,
-          baseUrl: providerConfig.api_base_url,
-          apiKey: providerConfig.api_key,
-          models: providerConfig.models || [],
-          transformer: providerConfig.transformer ? transformer : undefined,
-        });
+    const provider = this.registerProvider({
+      name: providerConfig.name,
+      baseUrl: providerConfig.api_base_url,
+      apiKey: providerConfig.api_key || providerConfig.api_keys?.[0] || "",
+      models: providerConfig.models || [],
+      transformer: providerConfig.transformer ? transformer : undefined,
+      modelInfo: providerConfig.modelInfo,
+      retry: providerConfig.retry,
+      apiKeys: providerConfig.api_keys,
+      apiKeyStrategy: providerConfig.api_key_strategy,
+      tokenProvider: providerConfig.auth
+        ? createTokenProvider(providerConfig.auth, (url) =>
+            connectionPools.get(
+              providerConfig.name,
+              url,
+              getNetworkOptions(
+                providerConfig.network,
+                this.configService.getNetworkConfig()
+              )
+            )
+          )
+        : undefined,
+      rateLimit: providerConfig.rateLimit,
+      maxConcurrency: providerConfig.maxConcurrency,
+      network: providerConfig.network,
+    });
+    this.registeredConfigs.set(provider.name, JSON.stringify(providerConfig));
+    return provider;
+  }
 
-        this.logger.info(`${providerConfig.name} provider registered`);
-      } catch (error) {
-        this.logger.error(`${providerConfig.name} provider registered error: ${error}`);
+  /**
+   * Check a provider entry before it is written to the config file.
+   * Returns the problem found, if any.
+   */
+  validateProviderConfig(providerConfig: ConfigProvider): string | undefined {
+    if (!providerConfig.name?.trim()) {
+      return "Provider name is required";
+    }
+    if (providerConfig.name.includes(",")) {
+      return "Provider name cannot contain a comma";
+    }
+    try {
+      new URL(providerConfig.api_base_url);
+    } catch {
+      return "Valid api_base_url is required";
+    }
+    if (!providerConfig.api_key?.trim() && !providerConfig.api_keys?.length && !providerConfig.auth) {
+      return "api_key, api_keys or auth is required";
+    }
+    if (
+      providerConfig.maxConcurrency !== undefined &&
+      !(Number.isInteger(providerConfig.maxConcurrency) && providerConfig.maxConcurrency > 0)
+    ) {
+      return "maxConcurrency must be a positive integer";
+    }
+    const proxy = providerConfig.network?.proxy;
+    if (proxy) {
+      let protocol: string;
+      try {
+        protocol = new URL(proxy).protocol;
+      } catch {
+        return `network.proxy is not a valid URL: ${proxy}`;
       }
-    });
+      if (!PROXY_PROTOCOLS.includes(protocol)) {
+        return `network.proxy must be an http://, https:// or socks5:// URL`;
+      }
+    }
+    if (providerConfig.auth) {
+      const auth: any = providerConfig.auth;
+      const required: Record<string, string[]> = {
+        oauth2: ["token_url", "client_id", "client_secret"],
+        jwt: ["credentials_file"],
+        google: [],
+      };
+      if (!required[auth.type]) {
+        return `Unknown auth type '${auth.type}'`;
+      }
+      const missing = required[auth.type].find((field) => !auth[field]);
+      if (missing) {
+        return `auth.${missing} is required for ${auth.type} auth`;
+      }
+    }
+    if (
+      !Array.isArray(providerConfig.models) ||
+      providerConfig.models.length === 0 ||
+      providerConfig.models.some((model) => typeof model !== "string" || !model.trim())
+    ) {
+      return "At least one model is required";
+    }
+
+    for (const [key, chain] of Object.entries<any>(providerConfig.transformer || {})) {
+      const use = key === "use" ? chain : chain?.use;
+      if (use === undefined) continue;
+      if (!Array.isArray(use)) {
+        return `Transformer chain '${key}' must be a list`;
+      }
+      for (const entry of use) {
+        const name = Array.isArray(entry) ? entry[0] : entry;
+        if (typeof name !== "string" || !this.transformerService.getTransformer(name)) {
+          return `Unknown transformer '${name}' in chain '${key}'`;
+        }
+      }
+    }
+    return undefined;
   }
 
   registerProvider(request: RegisterProviderRequest): LLMProvider {
@@ -183,14 +336,25 @@ export class ProviderService {
     });
 
     this.providers.delete(id);
+    this.registeredConfigs.delete(id);
     return true;
   }
 
+  /**
+   * Load or unload a provider of the config after its `enabled` flag changed
+   */
   toggleProvider(name: string, enabled: boolean): boolean {
-    const provider = this.providers.get(name);
-    if (!provider) {
+    const providerConfig = (
+      this.configService.get<ConfigProvider[]>("providers") || []
+    ).find((provider) => provider.name === name);
+    if (!providerConfig) {
       return false;
     }
+    if (!enabled) {
+      this.deleteProvider(name);
+    } else if (!this.providers.has(name)) {
+      this.registerFromConfig(providerConfig);
+    }
     return true;
   }
 
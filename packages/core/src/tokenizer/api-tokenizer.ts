@@ -1,3 +1,4 @@
+import { resolveSecret } from "@CCR/shared";
 import {
   ITokenizer,
   TokenizeRequest,
@@ -71,7 +72,7 @@ export class ApiTokenizer implements ITokenizer {
       // Prepare headers
       const headers = {
         "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.config.apiKey}`,
+        "Authorization": `Bearer ${await resolveSecret(this.config.apiKey!)}`,
         ...this.config.headers,
       };
 
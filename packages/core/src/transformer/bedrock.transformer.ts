@@ -0,0 +1,91 @@
+import { resolveSecret } from "@CCR/shared";
+import { LLMProvider, UnifiedChatRequest } from "../types/llm";
+import { Transformer, TransformerContext, TransformerOptions } from "../types/transformer";
+import { buildRequestBody, transformResponseOut } from "../utils/bedrock.util";
+import {
+  AwsCredentials,
+  SignableRequest,
+  getEnvAwsCredentials,
+  signAwsRequest,
+} from "../utils/sigv4";
+
+const DEFAULT_REGION = "us-east-1";
+
+/**
+ * Bedrock Converse API. Requests are signed with SigV4 using the
+ * credentials of the options or of the AWS_* environment variables; without
+ * credentials the provider api_key is sent as a Bedrock API key.
+ */
+export class BedrockTransformer implements Transformer {
+  static TransformerName = "bedrock";
+  logger?: any;
+
+  constructor(private readonly options?: TransformerOptions) {}
+
+  private getRegion(baseUrl: string): string {
+    let host = "";
+    try {
+      host = new URL(baseUrl).hostname;
+    } catch {}
+    return (
+      this.options?.region ||
+      host.match(/^bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com/)?.[1] ||
+      process.env.AWS_REGION ||
+      process.env.AWS_DEFAULT_REGION ||
+      DEFAULT_REGION
+    );
+  }
+
+  private async getCredentials(): Promise<AwsCredentials | undefined> {
+    const { accessKeyId, secretAccessKey, sessionToken } = this.options || {};
+    if (accessKeyId && secretAccessKey) {
+      return {
+        accessKeyId: await resolveSecret(accessKeyId),
+        secretAccessKey: await resolveSecret(secretAccessKey),
+        sessionToken: sessionToken ? await resolveSecret(sessionToken) : undefined,
+      };
+    }
+    return getEnvAwsCredentials();
+  }
+
+  async transformRequestIn(
+    request: UnifiedChatRequest,
+    provider: LLMProvider
+  ): Promise<Record<string, any>> {
+    const region = this.getRegion(provider.baseUrl);
+    const baseUrl = provider.baseUrl || `https://bedrock-runtime.${region}.amazonaws.com`;
+    const url = new URL(
+      `/model/${encodeURIComponent(request.model)}/${request.stream ? "converse-stream" : "converse"}`,
+      baseUrl
+    );
+
+    return {
+      body: buildRequestBody(request),
+      config: {
+        url: url.toString(),
+        headers: {
+          "Content-Type": "application/json",
+        },
+        // Signed right before sending, so retries and queued requests carry
+        // a fresh date
+        signRequest: async (signable: SignableRequest) => {
+          const credentials = await this.getCredentials();
+          if (!credentials) return;
+          signAwsRequest(signable, { credentials, region, service: "bedrock" });
+        },
+      },
+    };
+  }
+
+  async transformResponseOut(
+    response: Response,
+    context?: TransformerContext
+  ): Promise<Response> {
+    return transformResponseOut(
+      response,
+      BedrockTransformer.TransformerName,
+      context?.req?.body?.model || "",
+      this.logger
+    );
+  }
+}
@@ -12,6 +12,7 @@ import { ReasoningTransformer } from "./reasoning.transformer";
 import { SamplingTransformer } from "./sampling.transformer";
 import { MaxCompletionTokens } from "./maxcompletiontokens.transformer";
 import { VertexClaudeTransformer } from "./vertex-claude.transformer";
+import { BedrockTransformer } from "./bedrock.transformer";
 import { CerebrasTransformer } from "./cerebras.transformer";
 import { StreamOptionsTransformer } from "./streamoptions.transformer";
 import { OpenAITransformer } from "./openai.transformer";
@@ -25,6 +26,7 @@ export default {
   GeminiTransformer,
   VertexGeminiTransformer,
   VertexClaudeTransformer,
+  BedrockTransformer,
   DeepseekTransformer,
   TooluseTransformer,
   OpenrouterTransformer,
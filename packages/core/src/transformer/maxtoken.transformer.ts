@@ -1,4 +1,5 @@
-import { UnifiedChatRequest } from "../types/llm";
+import { resolveModelInfo } from "@CCR/shared";
+import { LLMProvider, UnifiedChatRequest } from "../types/llm";
 import { Transformer, TransformerOptions } from "../types/transformer";
 
 export class MaxTokenTransformer implements Transformer {
@@ -9,9 +10,15 @@ export class MaxTokenTransformer implements Transformer {
     this.max_tokens = this.options?.max_tokens;
   }
 
-  async transformRequestIn(request: UnifiedChatRequest): Promise<UnifiedChatRequest> {
-    if (request.max_tokens && request.max_tokens > this.max_tokens) {
-      request.max_tokens = this.max_tokens;
+  async transformRequestIn(
+    request: UnifiedChatRequest,
+    provider?: LLMProvider
+  ): Promise<UnifiedChatRequest> {
+    // Without an explicit limit, cap at the model's max output from the registry
+    const maxTokens =
+      this.max_tokens ?? resolveModelInfo(request.model, provider)?.maxOutputTokens;
+    if (request.max_tokens && maxTokens && request.max_tokens > maxTokens) {
+      request.max_tokens = maxTokens;
     }
     return request;
   }
@@ -1,31 +1,12 @@
 import { LLMProvider, UnifiedChatRequest } from "../types/llm";
 import { Transformer } from "../types/transformer";
+import { googleCloudTokens } from "../utils/tokenProvider";
 import {
   buildRequestBody,
   transformRequestOut,
   transformResponseOut,
 } from "../utils/gemini.util";
 
-async function getAccessToken(): Promise<string> {
-  try {
-    const { GoogleAuth } = await import('google-auth-library');
-
-    const auth = new GoogleAuth({
-      scopes: ['https://www.googleapis.com/auth/cloud-platform']
-    });
-
-    const client = await auth.getClient();
-    const accessToken = await client.getAccessToken();
-    return accessToken.token || '';
-  } catch (error) {
-    console.error('Error getting access token:', error);
-    throw new Error('Failed to get access token for Vertex AI. Please ensure you have set up authentication using one of these methods:\n' +
-      '1. Set GOOGLE_APPLICATION_CREDENTIALS to point to service account key file\n' +
-      '2. Run "gcloud auth application-default login"\n' +
-      '3. Use Google Cloud environment with default service account');
-  }
-}
-
 export class VertexGeminiTransformer implements Transformer {
   name = "vertex-gemini";
 
@@ -53,7 +34,6 @@ export class VertexGeminiTransformer implements Transformer {
       throw new Error('Project ID is required for Vertex AI. Set GOOGLE_CLOUD_PROJECT environment variable or ensure project_id is in GOOGLE_APPLICATION_CREDENTIALS file.');
     }
 
-    const accessToken = await getAccessToken();
     return {
       body: buildRequestBody(request),
       config: {
@@ -62,9 +42,10 @@ export class VertexGeminiTransformer implements Transformer {
             provider.baseUrl.endsWith('/') ? provider.baseUrl : provider.baseUrl + '/' || `https://${location}-aiplatform.googleapis.com`
         ),
         headers: {
-          "Authorization": `Bearer ${accessToken}`,
           "x-goog-api-key": undefined,
         },
+        // Application default credentials, unless the provider has its own auth
+        tokenProvider: googleCloudTokens,
       },
     };
   }
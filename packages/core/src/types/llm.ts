@@ -9,6 +9,12 @@ import type {
   MessageStreamEvent,
 } from "@anthropic-ai/sdk/resources/messages";
 import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import type { ModelDiscoveryConfig, ProviderModelInfoConfig } from "@CCR/shared";
+import type { RetryOptions } from "../utils/retry";
+import type { ApiKeyStrategy } from "../utils/apiKeyPool";
+import type { TokenAuthConfig, TokenProvider } from "../utils/tokenProvider";
+import type { RateLimitConfig } from "../utils/rateLimiter";
+import type { NetworkOptions } from "../utils/network";
 import type { Tool as AnthropicTool } from "@anthropic-ai/sdk/resources/messages";
 import { Transformer } from "./transformer";
 import type { ProviderTokenizerConfig } from "./tokenizer";
@@ -209,6 +215,16 @@ export interface LLMProvider {
   } & {
     use?: Transformer[];
   };
+  modelInfo?: ProviderModelInfoConfig;
+  retry?: RetryOptions;
+  // Keys rotated between requests; apiKey is the first of them
+  apiKeys?: string[];
+  apiKeyStrategy?: ApiKeyStrategy;
+  // Short-lived tokens sent instead of apiKey
+  tokenProvider?: TokenProvider;
+  rateLimit?: RateLimitConfig;
+  maxConcurrency?: number;
+  network?: NetworkOptions;
 }
 
 export type RegisterProviderRequest = LLMProvider;
@@ -228,8 +244,16 @@ export interface RequestRouteInfo {
 export interface ConfigProvider {
   name: string;
   api_base_url: string;
-  api_key: string;
+  api_key?: string;
+  api_keys?: string[];
+  api_key_strategy?: ApiKeyStrategy;
+  // Fetch short-lived tokens instead of sending a static key
+  auth?: TokenAuthConfig;
   models: string[];
+  // Disabled providers stay in the config but are not loaded
+  enabled?: boolean;
+  // Models listing endpoint, when it cannot be derived from api_base_url
+  discovery?: ModelDiscoveryConfig;
   transformer: {
     use?: string[] | Array<any>[];
   } & {
@@ -238,4 +262,12 @@ export interface ConfigProvider {
     };
   };
   tokenizer?: ProviderTokenizerConfig;
+  modelInfo?: ProviderModelInfoConfig;
+  retry?: RetryOptions;
+  // Client-side RPM/TPM limits
+  rateLimit?: RateLimitConfig;
+  // Requests in flight at once; more wait in a queue by scenario priority
+  maxConcurrency?: number;
+  // Proxy, TLS, timeouts and extra headers
+  network?: NetworkOptions;
 }
@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+
+export type ApiKeyStrategy = "round-robin" | "least-used";
+
+export interface ApiKeySnapshot {
+  // Fingerprint of the key; the key itself is never exposed
+  id: string;
+  requests: number;
+  requestsLastMinute: number;
+  failures: number;
+  rateLimited: number;
+  lastUsedAt?: string;
+  coolingDownUntil?: string;
+  lastStatus?: number;
+}
+
+interface KeyState {
+  requests: number;
+  recent: number[];
+  failures: number;
+  rateLimited: number;
+  lastUsedAt?: number;
+  cooldownUntil?: number;
+  lastStatus?: number;
+}
+
+const USAGE_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+const AUTH_FAILURE_COOLDOWN_MS = 10 * 60 * 1000;
+
+/**
+ * Short, stable identifier of a key that is safe to log
+ */
+export const getApiKeyId = (key: string): string =>
+  createHash("sha256").update(key).digest("hex").slice(0, 8);
+
+/**
+ * Key rotation for providers configured with `api_keys`.
+ * Keys that were rate limited or rejected cool down and are skipped until
+ * the cool-down is over.
+ */
+export class ApiKeyPoolRegistry {
+  private keys: Map<string, KeyState> = new Map();
+  private cursors: Map<string, number> = new Map();
+
+  /**
+   * Pick the key for the next request. Keys in `exclude` are skipped.
+   * Without `exclude`, a key is always returned: when every key is cooling
+   * down, the one that recovers first. With it, undefined means no other
+   * key is ready.
+   */
+  select(
+    provider: string,
+    keys: string[],
+    strategy: ApiKeyStrategy = "round-robin",
+    exclude: string[] = []
+  ): string | undefined {
+    const now = Date.now();
+    const candidates = keys.filter((key) => !exclude.includes(key));
+    const ready = candidates.filter(
+      (key) => (this.getState(provider, key).cooldownUntil || 0) <= now
+    );
+
+    if (ready.length === 0) {
+      if (exclude.length || candidates.length === 0) return undefined;
+      return candidates.reduce((soonest, key) =>
+        (this.getState(provider, key).cooldownUntil || 0) <
+        (this.getState(provider, soonest).cooldownUntil || 0)
+          ? key
+          : soonest
+      );
+    }
+
+    if (strategy === "least-used") {
+      return ready.reduce((least, key) =>
+        this.countRecent(provider, key, now) < this.countRecent(provider, least, now)
+          ? key
+          : least
+      );
+    }
+
+    const cursor = this.cursors.get(provider) || 0;
+    this.cursors.set(provider, cursor + 1);
+    return ready[cursor % ready.length];
+  }
+
+  recordRequest(provider: string, key: string): void {
+    const state = this.getState(provider, key);
+    const now = Date.now();
+    state.requests++;
+    state.lastUsedAt = now;
+    state.recent.push(now);
+    this.countRecent(provider, key, now);
+  }
+
+  /**
+   * Record the outcome of a request. 429 cools the key down for as long as
+   * the provider asked (one minute by default); 401 and 403 for ten minutes.
+   */
+  recordResponse(
+    provider: string,
+    key: string,
+    status: number,
+    retryAfterMs?: number
+  ): void {
+    const state = this.getState(provider, key);
+    state.lastStatus = status;
+    if (status < 400) return;
+    state.failures++;
+    if (status === 429) {
+      state.rateLimited++;
+      state.cooldownUntil = Date.now() + (retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS);
+    } else if (status === 401 || status === 403) {
+      state.cooldownUntil = Date.now() + AUTH_FAILURE_COOLDOWN_MS;
+    }
+  }
+
+  /**
+   * Whether a response status takes the key out of rotation
+   */
+  isKeyFailure(status: number): boolean {
+    return status === 429 || status === 401 || status === 403;
+  }
+
+  getSnapshots(provider: string, keys: string[]): ApiKeySnapshot[] {
+    const now = Date.now();
+    return keys.map((key) => {
+      const state = this.getState(provider, key);
+      return {
+        id: getApiKeyId(key),
+        requests: state.requests,
+        requestsLastMinute: this.countRecent(provider, key, now),
+        failures: state.failures,
+        rateLimited: state.rateLimited,
+        lastUsedAt: state.lastUsedAt
+          ? new Date(state.lastUsedAt).toISOString()
+          : undefined,
+        coolingDownUntil:
+          state.cooldownUntil && state.cooldownUntil > now
+            ? new Date(state.cooldownUntil).toISOString()
+            : undefined,
+        lastStatus: state.lastStatus,
+      };
+    });
+  }
+
+  /**
+   * End the cool-down of every key of a provider, or of all providers
+   */
+  reset(provider?: string): void {
+    this.keys.forEach((state, name) => {
+      if (!provider || name.startsWith(`${provider}:`)) {
+        state.cooldownUntil = undefined;
+      }
+    });
+  }
+
+  private countRecent(provider: string, key: string, now: number): number {
+    const state = this.getState(provider, key);
+    state.recent = state.recent.filter((time) => now - time < USAGE_WINDOW_MS);
+    return state.recent.length;
+  }
+
+  private getState(provider: string, key: string): KeyState {
+    const name = `${provider}:${getApiKeyId(key)}`;
+    let state = this.keys.get(name);
+    if (!state) {
+      state = { requests: 0, recent: [], failures: 0, rateLimited: 0 };
+      this.keys.set(name, state);
+    }
+    return state;
+  }
+}
+
+export const apiKeyPools = new ApiKeyPoolRegistry();
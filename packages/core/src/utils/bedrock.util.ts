@@ -0,0 +1,484 @@
+import { UnifiedChatRequest, UnifiedMessage } from "../types/llm";
+import { EventStreamDecoder } from "./eventStream";
+
+// Content block of the Converse API
+type ConverseContentBlock =
+  | { text: string }
+  | { image: { format: string; source: { bytes: string } } }
+  | { toolUse: { toolUseId: string; name: string; input: any } }
+  | {
+      toolResult: {
+        toolUseId: string;
+        content: Array<{ text: string }>;
+        status?: "success" | "error";
+      };
+    }
+  | { reasoningContent: { reasoningText: { text: string; signature?: string } } }
+  | { cachePoint: { type: "default" } };
+
+interface ConverseMessage {
+  role: "user" | "assistant";
+  content: ConverseContentBlock[];
+}
+
+// Converse / ConverseStream request body
+interface ConverseRequest {
+  messages: ConverseMessage[];
+  system?: Array<{ text: string } | { cachePoint: { type: "default" } }>;
+  inferenceConfig?: {
+    maxTokens?: number;
+    temperature?: number;
+  };
+  toolConfig?: {
+    tools: Array<
+      | {
+          toolSpec: {
+            name: string;
+            description?: string;
+            inputSchema: { json: Record<string, any> };
+          };
+        }
+      | { cachePoint: { type: "default" } }
+    >;
+    toolChoice?: { auto: {} } | { any: {} } | { tool: { name: string } };
+  };
+  additionalModelRequestFields?: Record<string, any>;
+}
+
+interface ConverseUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens?: number;
+  cacheWriteInputTokens?: number;
+}
+
+// Converse response body
+interface ConverseResponse {
+  output: {
+    message: ConverseMessage;
+  };
+  stopReason: string;
+  usage: ConverseUsage;
+}
+
+const CACHE_POINT = { cachePoint: { type: "default" as const } };
+
+// Thinking budget of each effort level, for Claude models
+const THINKING_BUDGETS: Record<string, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+const MIN_THINKING_BUDGET = 1024;
+
+const IMAGE_FORMATS = ["png", "jpeg", "gif", "webp"];
+
+const toImageBlock = (url: string, mediaType?: string): ConverseContentBlock | undefined => {
+  const match = url.match(/^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s);
+  const type = (match?.[1] || mediaType || "image/jpeg").split("/").pop()!.replace("jpg", "jpeg");
+  if (!IMAGE_FORMATS.includes(type) || (!match && /^https?:/.test(url))) {
+    return undefined;
+  }
+  return { image: { format: type, source: { bytes: match ? match[2] : url } } };
+};
+
+const toContentBlocks = (message: UnifiedMessage): ConverseContentBlock[] => {
+  const blocks: ConverseContentBlock[] = [];
+  if (typeof message.content === "string") {
+    if (message.content.trim()) {
+      blocks.push({ text: message.content });
+    }
+  } else if (Array.isArray(message.content)) {
+    message.content.forEach((item) => {
+      if (item.type === "text") {
+        if (item.text?.trim()) {
+          blocks.push({ text: item.text });
+          if (item.cache_control) blocks.push(CACHE_POINT);
+        }
+      } else if (item.type === "image_url") {
+        const image = toImageBlock(item.image_url.url, item.media_type);
+        if (image) blocks.push(image);
+      }
+    });
+  }
+  return blocks;
+};
+
+/**
+ * Build the Converse request body of a unified request. Tool results go in
+ * user messages and messages of the same role are merged, as Converse
+ * requires alternating roles.
+ */
+export function buildRequestBody(request: UnifiedChatRequest): ConverseRequest {
+  const system: NonNullable<ConverseRequest["system"]> = [];
+  const messages: ConverseMessage[] = [];
+
+  const append = (role: ConverseMessage["role"], content: ConverseContentBlock[]) => {
+    if (!content.length) return;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  };
+
+  for (const message of request.messages) {
+    if (message.role === "system") {
+      system.push(
+        ...(toContentBlocks(message) as Array<{ text: string } | { cachePoint: { type: "default" } }>)
+      );
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const text =
+        typeof message.content === "string"
+          ? message.content
+          : (message.content || [])
+              .map((item) => (item.type === "text" ? item.text : ""))
+              .join("");
+      append("user", [
+        {
+          toolResult: {
+            toolUseId: message.tool_call_id || "",
+            content: [{ text: text || "(empty)" }],
+          },
+        },
+        ...(message.cache_control ? [CACHE_POINT] : []),
+      ]);
+      continue;
+    }
+
+    const content = toContentBlocks(message);
+    if (message.role === "assistant") {
+      if (message.thinking?.signature) {
+        content.unshift({
+          reasoningContent: {
+            reasoningText: {
+              text: message.thinking.content,
+              signature: message.thinking.signature,
+            },
+          },
+        });
+      }
+      message.tool_calls?.forEach((toolCall) => {
+        let input = {};
+        try {
+          input = JSON.parse(toolCall.function.arguments || "{}");
+        } catch {}
+        content.push({
+          toolUse: {
+            toolUseId: toolCall.id,
+            name: toolCall.function.name,
+            input,
+          },
+        });
+      });
+    }
+    append(message.role === "assistant" ? "assistant" : "user", content);
+  }
+
+  const requestBody: ConverseRequest = { messages };
+  if (system.length) {
+    requestBody.system = system;
+  }
+
+  const maxTokens = request.max_tokens;
+  const effort = request.reasoning?.effort;
+  let budget =
+    request.reasoning?.max_tokens ?? (effort ? THINKING_BUDGETS[effort] : undefined);
+  if (budget && maxTokens && budget >= maxTokens) {
+    budget = maxTokens - 1;
+  }
+  const thinking =
+    request.model.includes("claude") &&
+    request.reasoning?.enabled !== false &&
+    effort !== "none" &&
+    !!budget &&
+    budget >= MIN_THINKING_BUDGET;
+  if (thinking) {
+    requestBody.additionalModelRequestFields = {
+      thinking: { type: "enabled", budget_tokens: budget },
+    };
+  }
+
+  requestBody.inferenceConfig = {
+    ...(maxTokens && { maxTokens }),
+    // Claude does not accept a temperature with thinking enabled
+    ...(request.temperature !== undefined && !thinking && { temperature: request.temperature }),
+  };
+
+  // Converse has no "none" tool choice; tools stay declared so earlier tool
+  // use in the conversation remains valid
+  if (request.tools?.length) {
+    requestBody.toolConfig = {
+      tools: request.tools.map((tool) => ({
+        toolSpec: {
+          name: tool.function.name,
+          description: tool.function.description || undefined,
+          inputSchema: { json: tool.function.parameters },
+        },
+      })),
+    };
+    const toolChoice = request.tool_choice;
+    if (toolChoice === "required" || toolChoice === "any") {
+      requestBody.toolConfig.toolChoice = { any: {} };
+    } else if (toolChoice && typeof toolChoice === "object") {
+      requestBody.toolConfig.toolChoice = { tool: { name: toolChoice.function.name } };
+    } else if (toolChoice && toolChoice !== "auto" && toolChoice !== "none") {
+      requestBody.toolConfig.toolChoice = { tool: { name: toolChoice } };
+    }
+  }
+
+  return requestBody;
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  tool_use: "tool_calls",
+  max_tokens: "length",
+  model_context_window_exceeded: "length",
+  guardrail_intervened: "content_filter",
+  content_filtered: "content_filter",
+};
+
+const toUsage = (usage?: ConverseUsage) => {
+  const cached = usage?.cacheReadInputTokens || 0;
+  // inputTokens does not count tokens read from or written to the cache
+  const prompt = (usage?.inputTokens || 0) + cached + (usage?.cacheWriteInputTokens || 0);
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: usage?.outputTokens || 0,
+    total_tokens: prompt + (usage?.outputTokens || 0),
+    prompt_tokens_details: { cached_tokens: cached },
+  };
+};
+
+/**
+ * Convert a Converse response to an OpenAI chat completion, and a
+ * ConverseStream event stream to OpenAI stream chunks
+ */
+export async function transformResponseOut(
+  response: Response,
+  providerName: string,
+  model: string,
+  logger?: any
+): Promise<Response> {
+  const id = `chatcmpl-${response.headers.get("x-amzn-requestid") || Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const contentType = response.headers.get("Content-Type") || "";
+
+  if (contentType.includes("application/json")) {
+    const jsonResponse = (await response.json()) as ConverseResponse;
+    const content = jsonResponse.output?.message?.content || [];
+
+    let text = "";
+    let thinking: { content: string; signature?: string } | undefined;
+    const tool_calls: any[] = [];
+    content.forEach((block) => {
+      if ("text" in block) {
+        text += block.text;
+      } else if ("toolUse" in block) {
+        tool_calls.push({
+          id: block.toolUse.toolUseId,
+          type: "function",
+          function: {
+            name: block.toolUse.name,
+            arguments: JSON.stringify(block.toolUse.input || {}),
+          },
+        });
+      } else if ("reasoningContent" in block && block.reasoningContent.reasoningText) {
+        thinking = {
+          content: (thinking?.content || "") + block.reasoningContent.reasoningText.text,
+          signature: block.reasoningContent.reasoningText.signature || thinking?.signature,
+        };
+      }
+    });
+
+    const res = {
+      id,
+      choices: [
+        {
+          finish_reason: FINISH_REASONS[jsonResponse.stopReason] || "stop",
+          index: 0,
+          message: {
+            content: text,
+            role: "assistant",
+            ...(thinking && { thinking }),
+            ...(tool_calls.length && { tool_calls }),
+          },
+        },
+      ],
+      created,
+      model,
+      object: "chat.completion",
+      usage: toUsage(jsonResponse.usage),
+    };
+
+    const headers = new Headers(response.headers);
+    headers.delete("content-length");
+    return new Response(JSON.stringify(res), {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  } else if (contentType.includes("eventstream")) {
+    if (!response.body) {
+      return response;
+    }
+
+    const encoder = new TextEncoder();
+    const textDecoder = new TextDecoder();
+    const eventDecoder = new EventStreamDecoder();
+    // Converse block index of each tool call, to its OpenAI tool call index
+    const toolIndexes = new Map<number, number>();
+    let stopReason: string | undefined;
+    let finished = false;
+
+    const chunk = (delta: Record<string, any>, extra: Record<string, any> = {}) =>
+      encoder.encode(
+        `data: ${JSON.stringify({
+          id,
+          choices: [{ delta, finish_reason: null, index: 0, logprobs: null, ...extra }],
+          created,
+          model,
+          object: "chat.completion.chunk",
+        })}\n\n`
+      );
+
+    const finish = (controller: ReadableStreamDefaultController, usage?: ConverseUsage) => {
+      if (finished) return;
+      finished = true;
+      controller.enqueue(
+        encoder.encode(
+          `data: ${JSON.stringify({
+            id,
+            choices: [
+              {
+                delta: {},
+                finish_reason: FINISH_REASONS[stopReason || ""] || "stop",
+                index: 0,
+                logprobs: null,
+              },
+            ],
+            created,
+            model,
+            object: "chat.completion.chunk",
+            usage: toUsage(usage),
+          })}\n\n`
+        )
+      );
+      controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
+    };
+
+    const processEvent = (
+      eventType: string,
+      event: any,
+      controller: ReadableStreamDefaultController
+    ) => {
+      switch (eventType) {
+        case "messageStart":
+          controller.enqueue(chunk({ role: "assistant", content: "" }));
+          break;
+        case "contentBlockStart": {
+          const toolUse = event.start?.toolUse;
+          if (toolUse) {
+            const index = toolIndexes.size;
+            toolIndexes.set(event.contentBlockIndex, index);
+            controller.enqueue(
+              chunk({
+                tool_calls: [
+                  {
+                    index,
+                    id: toolUse.toolUseId,
+                    type: "function",
+                    function: { name: toolUse.name, arguments: "" },
+                  },
+                ],
+              })
+            );
+          }
+          break;
+        }
+        case "contentBlockDelta": {
+          const delta = event.delta || {};
+          if (typeof delta.text === "string") {
+            controller.enqueue(chunk({ content: delta.text }));
+          } else if (delta.toolUse) {
+            controller.enqueue(
+              chunk({
+                tool_calls: [
+                  {
+                    index: toolIndexes.get(event.contentBlockIndex) ?? 0,
+                    function: { arguments: delta.toolUse.input || "" },
+                  },
+                ],
+              })
+            );
+          } else if (delta.reasoningContent?.text !== undefined) {
+            controller.enqueue(chunk({ thinking: { content: delta.reasoningContent.text } }));
+          } else if (delta.reasoningContent?.signature) {
+            controller.enqueue(
+              chunk({ thinking: { signature: delta.reasoningContent.signature } })
+            );
+          }
+          break;
+        }
+        case "messageStop":
+          // Usage comes in the metadata event that follows
+          stopReason = event.stopReason;
+          break;
+        case "metadata":
+          finish(controller, event.usage);
+          break;
+      }
+    };
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const reader = response.body!.getReader();
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            for (const message of eventDecoder.push(value)) {
+              const payload = textDecoder.decode(message.payload);
+              const messageType = message.headers[":message-type"];
+              if (messageType !== "event") {
+                const type =
+                  message.headers[":exception-type"] || message.headers[":error-code"] || "error";
+                let detail = payload;
+                try {
+                  detail = JSON.parse(payload).message || payload;
+                } catch {}
+                throw new Error(`${providerName} stream ${type}: ${detail}`);
+              }
+              const eventType = String(message.headers[":event-type"]);
+              logger?.debug({ eventType, payload }, `${providerName} event:`);
+              processEvent(eventType, JSON.parse(payload || "{}"), controller);
+            }
+          }
+          if (stopReason) {
+            finish(controller);
+          }
+          controller.close();
+        } catch (error) {
+          logger?.error(`Error reading ${providerName} event stream: ${error}`);
+          controller.error(error);
+        }
+      },
+    });
+
+    const headers = new Headers(response.headers);
+    headers.set("Content-Type", "text/event-stream");
+    headers.delete("content-length");
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+  return response;
+}
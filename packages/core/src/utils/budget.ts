@@ -0,0 +1,260 @@
+import { readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { BUDGET_FILE } from "@CCR/shared";
+import { LRUCache } from "lru-cache";
+import type { RouterScenarioType } from "./router";
+import { ModelPrice, TokenUsage, calculateCost } from "./pricing";
+
+/**
+ * `budget` config entry. Caps are in USD; a cap that is not set is unlimited.
+ */
+export interface BudgetConfig {
+  enabled?: boolean;
+  session?: number;
+  projectDaily?: number;
+  daily?: number;
+  // Fraction of a cap from which requests are routed to the downgrade model
+  downgradeAt?: number;
+  downgradeModel?: string | Partial<Record<RouterScenarioType, string>>;
+}
+
+export type BudgetScopeName = "session" | "project" | "daily";
+
+export interface BudgetScopeStatus {
+  scope: BudgetScopeName;
+  key: string;
+  spent: number;
+  limit: number;
+}
+
+export interface BudgetCheck {
+  action: "allow" | "downgrade" | "reject";
+  // The scope closest to (or over) its cap
+  scope?: BudgetScopeStatus;
+}
+
+export interface BudgetKeys {
+  sessionId?: string;
+  project?: string | null;
+}
+
+interface BudgetState {
+  date: string;
+  total: number;
+  projects: Record<string, number>;
+}
+
+const DEFAULT_DOWNGRADE_AT = 0.8;
+const SAVE_DELAY = 1000;
+
+const today = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export const isBudgetEnabled = (config: BudgetConfig | undefined): boolean =>
+  !!config && config.enabled !== false;
+
+/**
+ * Pick the downgrade target for a scenario
+ */
+export const getDowngradeModel = (
+  config: BudgetConfig,
+  scenarioType: RouterScenarioType
+): string | undefined => {
+  const { downgradeModel } = config;
+  if (!downgradeModel) return undefined;
+  if (typeof downgradeModel === "string") return downgradeModel;
+  return downgradeModel[scenarioType] || downgradeModel.default;
+};
+
+/**
+ * Whether the candidate price is lower than the current one. A target without
+ * a known price is treated as the more expensive one.
+ */
+export const isCheaper = (
+  candidatePrice: ModelPrice | undefined,
+  currentPrice: ModelPrice | undefined
+): boolean => {
+  if (!currentPrice) return true;
+  if (!candidatePrice) return false;
+  return (
+    candidatePrice.input + candidatePrice.output <
+    currentPrice.input + currentPrice.output
+  );
+};
+
+/**
+ * Spend accounting for the session, per-project daily and global daily caps.
+ * Daily totals roll over at local midnight; everything is persisted to
+ * BUDGET_FILE so a restart does not reset the caps.
+ */
+export class BudgetTracker {
+  private state?: BudgetState;
+  private sessions = new LRUCache<string, number>({ max: 1000 });
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private file: string = BUDGET_FILE) {}
+
+  /**
+   * Account the usage of one response and return its cost in USD.
+   * Returns undefined when the target has no known price.
+   */
+  record(
+    usage: TokenUsage,
+    keys: BudgetKeys,
+    price: ModelPrice | undefined
+  ): number | undefined {
+    if (!price) return undefined;
+    const cost = calculateCost(usage, price);
+    if (cost <= 0) return cost;
+
+    const state = this.getState();
+    state.total += cost;
+    if (keys.project) {
+      state.projects[keys.project] = (state.projects[keys.project] || 0) + cost;
+    }
+    if (keys.sessionId) {
+      this.sessions.set(keys.sessionId, (this.sessions.get(keys.sessionId) || 0) + cost);
+    }
+    this.scheduleSave();
+    return cost;
+  }
+
+  check(config: BudgetConfig, keys: BudgetKeys): BudgetCheck {
+    const state = this.getState();
+    const scopes: BudgetScopeStatus[] = [];
+    if (config.session && keys.sessionId) {
+      scopes.push({
+        scope: "session",
+        key: keys.sessionId,
+        spent: this.sessions.get(keys.sessionId) || 0,
+        limit: config.session,
+      });
+    }
+    if (config.projectDaily && keys.project) {
+      scopes.push({
+        scope: "project",
+        key: keys.project,
+        spent: state.projects[keys.project] || 0,
+        limit: config.projectDaily,
+      });
+    }
+    if (config.daily) {
+      scopes.push({
+        scope: "daily",
+        key: state.date,
+        spent: state.total,
+        limit: config.daily,
+      });
+    }
+    if (scopes.length === 0) return { action: "allow" };
+
+    const scope = scopes.reduce((worst, current) =>
+      current.spent / current.limit > worst.spent / worst.limit ? current : worst
+    );
+    if (scope.spent >= scope.limit) {
+      return { action: "reject", scope };
+    }
+    if (scope.spent >= scope.limit * (config.downgradeAt ?? DEFAULT_DOWNGRADE_AT)) {
+      return { action: "downgrade", scope };
+    }
+    return { action: "allow", scope };
+  }
+
+  getSummary() {
+    const state = this.getState();
+    return {
+      date: state.date,
+      daily: state.total,
+      projects: { ...state.projects },
+      sessions: Object.fromEntries(this.sessions.entries()),
+    };
+  }
+
+  reset(scope?: BudgetScopeName, key?: string): void {
+    const state = this.getState();
+    if (!scope || scope === "daily") {
+      state.total = 0;
+      state.projects = {};
+    }
+    if (scope === "project") {
+      if (key) {
+        state.total -= state.projects[key] || 0;
+        delete state.projects[key];
+      } else {
+        state.projects = {};
+      }
+    }
+    if (!scope || scope === "session") {
+      if (key && scope === "session") {
+        this.sessions.delete(key);
+      } else {
+        this.sessions.clear();
+      }
+    }
+    this.scheduleSave();
+  }
+
+  private getState(): BudgetState {
+    if (!this.state) {
+      this.state = this.load();
+    }
+    const date = today();
+    if (this.state.date !== date) {
+      this.state = { ...this.state, date, total: 0, projects: {} };
+      this.scheduleSave();
+    }
+    return this.state;
+  }
+
+  private load(): BudgetState {
+    try {
+      const data = JSON.parse(readFileSync(this.file, "utf8"));
+      Object.entries(data.sessions || {}).forEach(([sessionId, spent]) =>
+        this.sessions.set(sessionId, Number(spent) || 0)
+      );
+      return {
+        date: data.date || today(),
+        total: Number(data.total) || 0,
+        projects: data.projects || {},
+      };
+    } catch {
+      return { date: today(), total: 0, projects: {} };
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch((error) =>
+        console.error("Failed to save budget state:", error)
+      );
+    }, SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const state = this.getState();
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(
+      this.file,
+      JSON.stringify(
+        {
+          date: state.date,
+          total: state.total,
+          projects: state.projects,
+          sessions: Object.fromEntries(this.sessions.entries()),
+        },
+        null,
+        2
+      )
+    );
+  }
+}
+
+export const budgetTracker = new BudgetTracker();
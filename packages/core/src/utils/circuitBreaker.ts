@@ -0,0 +1,211 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean;
+  // Failure ratio within the window that opens the breaker
+  failureRateThreshold?: number;
+  // Minimum number of requests in the window before the ratio is evaluated
+  minimumRequests?: number;
+  windowMs?: number;
+  // How long the breaker stays open before a trial request is let through
+  cooldownMs?: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  target: string;
+  state: CircuitState;
+  failures: number;
+  requests: number;
+  failureRate: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastError?: string;
+}
+
+interface Outcome {
+  time: number;
+  failed: boolean;
+}
+
+interface BreakerEntry {
+  state: CircuitState;
+  outcomes: Outcome[];
+  openedAt?: number;
+  trialStartedAt?: number;
+  lastError?: string;
+}
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  enabled: true,
+  failureRateThreshold: 0.5,
+  minimumRequests: 5,
+  windowMs: 60 * 1000,
+  cooldownMs: 30 * 1000,
+};
+
+/**
+ * Resolve breaker options from the `circuitBreaker` config entry.
+ * Breakers are disabled unless the entry is present.
+ */
+export const getCircuitBreakerOptions = (
+  config: CircuitBreakerOptions | undefined
+): Required<CircuitBreakerOptions> => {
+  if (!config) {
+    return { ...DEFAULT_OPTIONS, enabled: false };
+  }
+  return { ...DEFAULT_OPTIONS, ...config };
+};
+
+/**
+ * Whether a failed attempt says something about the health of the upstream.
+ * Client errors other than 429 are the caller's fault and count as successes.
+ */
+export const isCircuitFailure = (error: any): boolean => {
+  const status = error?.statusCode ?? error?.status;
+  if (typeof status === "number" && error?.code === "provider_response_error") {
+    return status >= 500 || status === 429;
+  }
+  // Network errors, timeouts and aborted fetches
+  return true;
+};
+
+/**
+ * Circuit breakers keyed by "provider,model".
+ *
+ * closed    -> requests flow, outcomes are recorded in a sliding window
+ * open      -> the target is skipped until the cool-down has elapsed
+ * half-open -> one trial request is let through; success closes, failure reopens
+ */
+export class CircuitBreakerRegistry {
+  private breakers: Map<string, BreakerEntry> = new Map();
+
+  /**
+   * Check without side effects whether a request may go to the target
+   */
+  isAvailable(target: string, options: Required<CircuitBreakerOptions>): boolean {
+    if (!options.enabled) return true;
+    const entry = this.breakers.get(target);
+    if (!entry || entry.state === "closed") return true;
+    const now = Date.now();
+    if (entry.state === "open") {
+      return now - (entry.openedAt || 0) >= options.cooldownMs;
+    }
+    // half-open: only one trial at a time, unless the trial never reported back
+    return (
+      !entry.trialStartedAt || now - entry.trialStartedAt >= options.cooldownMs
+    );
+  }
+
+  /**
+   * Mark a request as sent. Moves an expired open breaker to half-open.
+   */
+  onRequest(target: string, options: Required<CircuitBreakerOptions>): void {
+    if (!options.enabled) return;
+    const entry = this.breakers.get(target);
+    if (!entry || entry.state === "closed") return;
+    if (this.isAvailable(target, options)) {
+      entry.state = "half-open";
+      entry.trialStartedAt = Date.now();
+    }
+  }
+
+  recordSuccess(target: string, options: Required<CircuitBreakerOptions>): void {
+    if (!options.enabled) return;
+    const entry = this.getEntry(target);
+    if (entry.state !== "closed") {
+      this.breakers.set(target, { state: "closed", outcomes: [] });
+      return;
+    }
+    this.pushOutcome(entry, false, options);
+  }
+
+  recordFailure(
+    target: string,
+    options: Required<CircuitBreakerOptions>,
+    reason?: string
+  ): void {
+    if (!options.enabled) return;
+    const entry = this.getEntry(target);
+    entry.lastError = reason;
+    if (entry.state === "half-open") {
+      this.open(entry);
+      return;
+    }
+    if (entry.state === "open") return;
+    this.pushOutcome(entry, true, options);
+    const { requests, failures } = this.countOutcomes(entry);
+    if (
+      requests >= options.minimumRequests &&
+      failures / requests >= options.failureRateThreshold
+    ) {
+      this.open(entry);
+    }
+  }
+
+  getSnapshots(options?: Required<CircuitBreakerOptions>): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.entries()).map(([target, entry]) => {
+      if (options) this.prune(entry, options);
+      const { requests, failures } = this.countOutcomes(entry);
+      return {
+        target,
+        state: entry.state,
+        failures,
+        requests,
+        failureRate: requests ? failures / requests : 0,
+        openedAt: entry.openedAt ? new Date(entry.openedAt).toISOString() : undefined,
+        retryAt:
+          entry.state === "open" && entry.openedAt && options
+            ? new Date(entry.openedAt + options.cooldownMs).toISOString()
+            : undefined,
+        lastError: entry.lastError,
+      };
+    });
+  }
+
+  reset(target?: string): void {
+    if (target) {
+      this.breakers.delete(target);
+    } else {
+      this.breakers.clear();
+    }
+  }
+
+  private getEntry(target: string): BreakerEntry {
+    let entry = this.breakers.get(target);
+    if (!entry) {
+      entry = { state: "closed", outcomes: [] };
+      this.breakers.set(target, entry);
+    }
+    return entry;
+  }
+
+  private open(entry: BreakerEntry): void {
+    entry.state = "open";
+    entry.openedAt = Date.now();
+    entry.trialStartedAt = undefined;
+    entry.outcomes = [];
+  }
+
+  private pushOutcome(
+    entry: BreakerEntry,
+    failed: boolean,
+    options: Required<CircuitBreakerOptions>
+  ): void {
+    entry.outcomes.push({ time: Date.now(), failed });
+    this.prune(entry, options);
+  }
+
+  private prune(entry: BreakerEntry, options: Required<CircuitBreakerOptions>): void {
+    const since = Date.now() - options.windowMs;
+    entry.outcomes = entry.outcomes.filter((outcome) => outcome.time >= since);
+  }
+
+  private countOutcomes(entry: BreakerEntry) {
+    return {
+      requests: entry.outcomes.length,
+      failures: entry.outcomes.filter((outcome) => outcome.failed).length,
+    };
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,213 @@
+export interface ConcurrencySnapshot {
+  provider: string;
+  maxConcurrency: number;
+  active: number;
+  queued: number;
+  queuedByScenario: Record<string, number>;
+  // Requests that got a slot in the last five minutes, queued or not
+  served: number;
+  waitAvgMs?: number;
+  waitP95Ms?: number;
+  waitMaxMs?: number;
+  // Longest queue seen since the service started
+  maxQueued: number;
+}
+
+/**
+ * Queue priority of each router scenario; lower goes first. Interactive
+ * requests go ahead of background ones. Other scenarios rank as `default`.
+ */
+export const SCENARIO_PRIORITIES: Record<string, number> = {
+  default: 0,
+  think: 0,
+  webSearch: 0,
+  longContext: 1,
+  background: 2,
+};
+
+interface Waiter {
+  priority: number;
+  scenario: string;
+  queuedAt: number;
+  resolve: (release: () => void) => void;
+}
+
+interface WaitSample {
+  time: number;
+  waitMs: number;
+}
+
+interface ProviderSlots {
+  limit: number;
+  active: number;
+  waiters: Waiter[];
+  waits: WaitSample[];
+  maxQueued: number;
+}
+
+const STATS_WINDOW_MS = 5 * 60 * 1000;
+const MAX_SAMPLES = 500;
+
+const percentile = (values: number[], fraction: number): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * fraction) - 1)];
+};
+
+/**
+ * `maxConcurrency` per provider. Requests past the limit wait for a slot,
+ * by scenario priority and then in arrival order.
+ */
+export class ConcurrencyLimiterRegistry {
+  private slots: Map<string, ProviderSlots> = new Map();
+
+  /**
+   * Wait for a slot of the provider. Resolves with the function that gives
+   * the slot back; call it exactly once, when the response is done.
+   */
+  acquire(
+    provider: string,
+    limit: number,
+    scenario: string = "default",
+    signal?: AbortSignal
+  ): Promise<() => void> {
+    const slots = this.getSlots(provider, limit);
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason ?? new Error("Aborted"));
+    }
+    if (slots.active < slots.limit && slots.waiters.length === 0) {
+      return Promise.resolve(this.take(slots, 0));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        priority: SCENARIO_PRIORITIES[scenario] ?? SCENARIO_PRIORITIES.default,
+        scenario,
+        queuedAt: Date.now(),
+        resolve,
+      };
+      // After the last waiter of the same or a higher priority
+      const index = slots.waiters.findIndex((queued) => queued.priority > waiter.priority);
+      slots.waiters.splice(index === -1 ? slots.waiters.length : index, 0, waiter);
+      slots.maxQueued = Math.max(slots.maxQueued, slots.waiters.length);
+
+      if (signal) {
+        const onAbort = () => {
+          const position = slots.waiters.indexOf(waiter);
+          if (position === -1) return;
+          slots.waiters.splice(position, 1);
+          reject(signal.reason ?? new Error("Aborted"));
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        waiter.resolve = (release) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(release);
+        };
+      }
+    });
+  }
+
+  getSnapshots(): ConcurrencySnapshot[] {
+    const now = Date.now();
+    return Array.from(this.slots.entries()).map(([provider, slots]) => {
+      const waits = slots.waits
+        .filter((sample) => now - sample.time < STATS_WINDOW_MS)
+        .map((sample) => sample.waitMs);
+      const queuedByScenario: Record<string, number> = {};
+      slots.waiters.forEach((waiter) => {
+        queuedByScenario[waiter.scenario] = (queuedByScenario[waiter.scenario] || 0) + 1;
+      });
+      return {
+        provider,
+        maxConcurrency: slots.limit,
+        active: slots.active,
+        queued: slots.waiters.length,
+        queuedByScenario,
+        served: waits.length,
+        waitAvgMs: waits.length
+          ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length)
+          : undefined,
+        waitP95Ms: percentile(waits, 0.95),
+        waitMaxMs: waits.length ? Math.max(...waits) : undefined,
+        maxQueued: slots.maxQueued,
+      };
+    });
+  }
+
+  private take(slots: ProviderSlots, waitMs: number): () => void {
+    slots.active++;
+    slots.waits.push({ time: Date.now(), waitMs });
+    if (slots.waits.length > MAX_SAMPLES) {
+      slots.waits.splice(0, slots.waits.length - MAX_SAMPLES);
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      slots.active--;
+      this.next(slots);
+    };
+  }
+
+  private next(slots: ProviderSlots): void {
+    while (slots.active < slots.limit && slots.waiters.length) {
+      const waiter = slots.waiters.shift()!;
+      waiter.resolve(this.take(slots, Date.now() - waiter.queuedAt));
+    }
+  }
+
+  // The limit follows config changes; a raised limit lets waiters in
+  private getSlots(provider: string, limit: number): ProviderSlots {
+    let slots = this.slots.get(provider);
+    if (!slots) {
+      slots = { limit, active: 0, waiters: [], waits: [], maxQueued: 0 };
+      this.slots.set(provider, slots);
+    } else if (slots.limit !== limit) {
+      slots.limit = limit;
+      this.next(slots);
+    }
+    return slots;
+  }
+}
+
+/**
+ * Response whose body gives the slot back once it has been read to the
+ * end, failed or been cancelled
+ */
+export const releaseWhenRead = (
+  response: Response,
+  release: () => void
+): Response => {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+export const concurrencyLimiters = new ConcurrencyLimiterRegistry();
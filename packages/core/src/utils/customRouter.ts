@@ -0,0 +1,175 @@
+import { stat } from "fs/promises";
+import { sep } from "path";
+import vm from "vm";
+import type { Usage } from "./cache";
+import type { RouterScenarioType } from "./router";
+
+/**
+ * Context passed as the third argument to a custom router
+ */
+export interface CustomRouterContext {
+  event?: any;
+  tokenCount: number;
+  // Decision of the built-in rules, which the custom router may override
+  scenario: {
+    type: RouterScenarioType;
+    rule: string;
+    model: string;
+    candidates: string[];
+  };
+  providers: Array<{ name: string; models: string[] }>;
+  lastUsage?: Usage;
+  sessionId?: string;
+  project: string | null;
+}
+
+export type CustomRouterFunction = (
+  req: any,
+  config: any,
+  context: CustomRouterContext
+) => Promise<string | null | undefined> | string | null | undefined;
+
+// "skipped": not run, in a dry run that did not ask for it
+export type CustomRouterStatus = "ok" | "empty" | "invalid" | "error" | "timeout" | "skipped";
+
+export interface CustomRouterResult {
+  path: string;
+  status: CustomRouterStatus;
+  model?: string;
+  error?: string;
+  durationMs: number;
+  reloaded: boolean;
+}
+
+interface LoadedRouter {
+  fn: CustomRouterFunction;
+  // mtime of the router file and of the local modules it requires
+  files: Map<string, number>;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+const loadedRouters = new Map<string, LoadedRouter>();
+
+class CustomRouterTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`custom router timed out after ${timeoutMs}ms`);
+  }
+}
+
+// The router file and the modules it requires, outside node_modules
+const collectLocalModules = (
+  module: NodeModule | undefined,
+  files: Set<string> = new Set()
+): Set<string> => {
+  if (!module || files.has(module.filename) || module.filename.includes(`${sep}node_modules${sep}`)) {
+    return files;
+  }
+  files.add(module.filename);
+  module.children.forEach((child) => collectLocalModules(child, files));
+  return files;
+};
+
+const getMtimes = async (files: Iterable<string>): Promise<Map<string, number>> => {
+  const mtimes = new Map<string, number>();
+  for (const file of files) {
+    mtimes.set(file, await stat(file).then((stats) => stats.mtimeMs, () => -1));
+  }
+  return mtimes;
+};
+
+/**
+ * Load the router module, re-requiring it and its local helper modules
+ * whenever one of their files changes
+ */
+const loadCustomRouter = async (
+  path: string
+): Promise<{ fn: CustomRouterFunction; reloaded: boolean }> => {
+  const resolved = require.resolve(path);
+  const loaded = loadedRouters.get(resolved);
+  if (loaded) {
+    const current = await getMtimes(loaded.files.keys());
+    if (Array.from(loaded.files).every(([file, mtimeMs]) => current.get(file) === mtimeMs)) {
+      return { fn: loaded.fn, reloaded: false };
+    }
+    loaded.files.forEach((_, file) => delete require.cache[file]);
+  }
+
+  delete require.cache[resolved];
+  const module = require(resolved);
+  const fn = typeof module === "function" ? module : module?.default;
+  if (typeof fn !== "function") {
+    throw new Error(`${path} does not export a router function`);
+  }
+  const files = await getMtimes(collectLocalModules(require.cache[resolved]));
+  loadedRouters.set(resolved, { fn, files });
+  return { fn, reloaded: !!loaded };
+};
+
+/**
+ * Run the custom router within a time budget. The synchronous part of the
+ * call runs under a vm timeout, so a router stuck in a loop is interrupted;
+ * after its first `await` the budget only bounds how long the request waits.
+ * Never throws: failures are reported in the result so the caller can fall
+ * back to the built-in rules.
+ */
+export const runCustomRouter = async (
+  path: string,
+  req: any,
+  config: any,
+  context: CustomRouterContext,
+  timeoutMs: number = DEFAULT_TIMEOUT
+): Promise<CustomRouterResult> => {
+  const startedAt = Date.now();
+  let reloaded = false;
+  let timer: NodeJS.Timeout | undefined;
+  const finish = (
+    status: CustomRouterStatus,
+    extra: Partial<CustomRouterResult> = {}
+  ): CustomRouterResult => ({
+    path,
+    status,
+    durationMs: Date.now() - startedAt,
+    reloaded,
+    ...extra,
+  });
+
+  try {
+    const loaded = await loadCustomRouter(path);
+    reloaded = loaded.reloaded;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new CustomRouterTimeoutError(timeoutMs)),
+        timeoutMs
+      );
+    });
+    // The new context only lets the timeout interrupt a blocking router. It
+    // is no sandbox: the router is trusted code and gets the live request
+    // and config objects.
+    const pending = vm.runInNewContext(
+      "fn(req, config, context)",
+      { fn: loaded.fn, req, config, context },
+      { timeout: timeoutMs }
+    );
+    const model = await Promise.race([Promise.resolve(pending), timeout]);
+    if (!model) {
+      return finish("empty");
+    }
+    if (typeof model !== "string" || !model.includes(",")) {
+      return finish("invalid", {
+        error: `expected "provider,model", got ${JSON.stringify(model)}`,
+      });
+    }
+    return finish("ok", { model });
+  } catch (e: any) {
+    if (e instanceof CustomRouterTimeoutError) {
+      return finish("timeout", { error: e.message });
+    }
+    if (e?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      return finish("timeout", { error: `custom router blocked for ${timeoutMs}ms` });
+    }
+    return finish("error", { error: e?.message || String(e) });
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,181 @@
+/**
+ * AWS event stream framing (application/vnd.amazon.eventstream), used by
+ * streaming AWS APIs such as Bedrock ConverseStream. A message is
+ *
+ *   total length (4) | headers length (4) | prelude CRC32 (4) |
+ *   headers | payload | message CRC32 (4)
+ *
+ * with big-endian lengths. Each header is a name length (1), the name, a
+ * value type (1) and the value.
+ */
+
+export type EventStreamHeaderValue = string | number | boolean | Uint8Array | Date;
+
+export interface EventStreamMessage {
+  headers: Record<string, EventStreamHeaderValue>;
+  payload: Uint8Array;
+}
+
+const PRELUDE_LENGTH = 12;
+const CRC_LENGTH = 4;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const decodeHeaders = (data: Uint8Array): Record<string, EventStreamHeaderValue> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const headers: Record<string, EventStreamHeaderValue> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const nameLength = data[offset];
+    const name = decoder.decode(data.subarray(offset + 1, offset + 1 + nameLength));
+    offset += 1 + nameLength;
+    const type = data[offset++];
+    switch (type) {
+      case 0:
+      case 1:
+        headers[name] = type === 0;
+        break;
+      case 2:
+        headers[name] = view.getInt8(offset);
+        offset += 1;
+        break;
+      case 3:
+        headers[name] = view.getInt16(offset);
+        offset += 2;
+        break;
+      case 4:
+        headers[name] = view.getInt32(offset);
+        offset += 4;
+        break;
+      case 5:
+        headers[name] = Number(view.getBigInt64(offset));
+        offset += 8;
+        break;
+      case 6:
+      case 7: {
+        const length = view.getUint16(offset);
+        const value = data.subarray(offset + 2, offset + 2 + length);
+        headers[name] = type === 7 ? decoder.decode(value) : value;
+        offset += 2 + length;
+        break;
+      }
+      case 8:
+        headers[name] = new Date(Number(view.getBigInt64(offset)));
+        offset += 8;
+        break;
+      case 9: {
+        const hex = Buffer.from(data.subarray(offset, offset + 16)).toString("hex");
+        headers[name] = hex.replace(/^(.{8})(.{4})(.{4})(.{4})/, "$1-$2-$3-$4-");
+        offset += 16;
+        break;
+      }
+      default:
+        throw new Error(`event stream header ${name} has unknown type ${type}`);
+    }
+  }
+  return headers;
+};
+
+/**
+ * Incremental decoder: feed it the chunks of a response body and it returns
+ * the messages completed so far. Throws when a checksum does not match.
+ */
+export class EventStreamDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  push(chunk: Uint8Array): EventStreamMessage[] {
+    const buffer = new Uint8Array(this.buffer.length + chunk.length);
+    buffer.set(this.buffer);
+    buffer.set(chunk, this.buffer.length);
+    this.buffer = buffer;
+
+    const messages: EventStreamMessage[] = [];
+    while (this.buffer.length >= PRELUDE_LENGTH) {
+      const view = new DataView(this.buffer.buffer, this.buffer.byteOffset, this.buffer.byteLength);
+      const totalLength = view.getUint32(0);
+      const headersLength = view.getUint32(4);
+      if (totalLength < PRELUDE_LENGTH + headersLength + CRC_LENGTH) {
+        throw new Error(`invalid event stream message length ${totalLength}`);
+      }
+      if (view.getUint32(8) !== crc32(this.buffer.subarray(0, 8))) {
+        throw new Error("event stream prelude checksum mismatch");
+      }
+      if (this.buffer.length < totalLength) break;
+
+      const message = this.buffer.subarray(0, totalLength);
+      if (view.getUint32(totalLength - CRC_LENGTH) !== crc32(message.subarray(0, totalLength - CRC_LENGTH))) {
+        throw new Error("event stream message checksum mismatch");
+      }
+      messages.push({
+        headers: decodeHeaders(message.subarray(PRELUDE_LENGTH, PRELUDE_LENGTH + headersLength)),
+        payload: message.slice(PRELUDE_LENGTH + headersLength, totalLength - CRC_LENGTH),
+      });
+      this.buffer = this.buffer.subarray(totalLength);
+    }
+    return messages;
+  }
+
+  /** Bytes of an unfinished message still waiting for the rest */
+  get pending(): number {
+    return this.buffer.length;
+  }
+}
+
+/**
+ * Encode a message with string headers, as sent by AWS. Useful to record
+ * payloads for a stub standing in for a streaming AWS API.
+ */
+export const encodeEventStreamMessage = (
+  headers: Record<string, string>,
+  payload: Uint8Array | string
+): Uint8Array => {
+  const encoder = new TextEncoder();
+  const body = typeof payload === "string" ? encoder.encode(payload) : payload;
+  const headerBytes = Object.entries(headers).map(([name, value]) => {
+    const nameBytes = encoder.encode(name);
+    const valueBytes = encoder.encode(value);
+    const header = new Uint8Array(1 + nameBytes.length + 3 + valueBytes.length);
+    const view = new DataView(header.buffer);
+    header[0] = nameBytes.length;
+    header.set(nameBytes, 1);
+    header[1 + nameBytes.length] = 7;
+    view.setUint16(2 + nameBytes.length, valueBytes.length);
+    header.set(valueBytes, 4 + nameBytes.length);
+    return header;
+  });
+  const headersLength = headerBytes.reduce((sum, header) => sum + header.length, 0);
+  const totalLength = PRELUDE_LENGTH + headersLength + body.length + CRC_LENGTH;
+
+  const message = new Uint8Array(totalLength);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, totalLength);
+  view.setUint32(4, headersLength);
+  view.setUint32(8, crc32(message.subarray(0, 8)));
+  let offset = PRELUDE_LENGTH;
+  for (const header of headerBytes) {
+    message.set(header, offset);
+    offset += header.length;
+  }
+  message.set(body, offset);
+  view.setUint32(totalLength - CRC_LENGTH, crc32(message.subarray(0, totalLength - CRC_LENGTH)));
+  return message;
+};
@@ -0,0 +1,143 @@
+export type ErrorClass =
+  | "status"
+  | "network"
+  | "timeout"
+  | "empty_response"
+  | "context_length"
+  | "stream_interrupted";
+
+export interface ClassifiedError {
+  class: ErrorClass;
+  status?: number;
+}
+
+/**
+ * Scenario entry of the `fallback` config. A plain list of targets is
+ * triggered by every error class.
+ */
+export interface FallbackRule {
+  models: string[];
+  // Status codes ("429"), ranges ("5xx", "500-504") or error classes
+  // ("network", "timeout", "empty_response", "context_length", "stream_interrupted")
+  on?: string[];
+}
+
+export type FallbackEntry = string[] | FallbackRule;
+
+export const DEFAULT_FALLBACK_TRIGGERS = [
+  "4xx",
+  "5xx",
+  "network",
+  "timeout",
+  "empty_response",
+  "context_length",
+  "stream_interrupted",
+];
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[ _-]?length|context[ _-]?window|maximum context|prompt is too long|input is too long|too many (input )?tokens|max_tokens.*exceed/i;
+
+const TIMEOUT_CODES = [
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+];
+
+export const getFallbackRule = (
+  fallbackConfig: Record<string, FallbackEntry> | undefined,
+  scenarioType: string
+): Required<FallbackRule> => {
+  const entry = fallbackConfig?.[scenarioType];
+  if (Array.isArray(entry)) {
+    return { models: entry, on: DEFAULT_FALLBACK_TRIGGERS };
+  }
+  return {
+    models: Array.isArray(entry?.models) ? entry!.models : [],
+    on: entry?.on?.length ? entry.on : DEFAULT_FALLBACK_TRIGGERS,
+  };
+};
+
+export const getFallbackModels = (
+  fallbackConfig: Record<string, FallbackEntry> | undefined,
+  scenarioType: string
+): string[] => getFallbackRule(fallbackConfig, scenarioType).models;
+
+/**
+ * Work out why a provider request failed. Returns undefined for errors that
+ * are not upstream failures, such as an unknown provider.
+ */
+export const classifyError = (error: any): ClassifiedError | undefined => {
+  if (!error) return undefined;
+  if (error.code === "empty_response") {
+    return { class: "empty_response", status: error.statusCode };
+  }
+  // Held back by the client-side rate limit; fails over like a 429
+  if (error.code === "rate_limited") {
+    return { class: "status", status: 429 };
+  }
+  if (error.code === "provider_response_error") {
+    const status = error.statusCode;
+    if (
+      [400, 413, 422].includes(status) &&
+      CONTEXT_LENGTH_PATTERN.test(error.message || "")
+    ) {
+      return { class: "context_length", status };
+    }
+    return { class: "status", status };
+  }
+
+  const cause = error.cause;
+  if (
+    error.name === "TimeoutError" ||
+    cause?.name === "TimeoutError" ||
+    TIMEOUT_CODES.includes(error.code) ||
+    TIMEOUT_CODES.includes(cause?.code)
+  ) {
+    return { class: "timeout" };
+  }
+  if (
+    error.message === "fetch failed" ||
+    typeof cause?.code === "string" ||
+    /^E[A-Z]+$/.test(error.code || "")
+  ) {
+    return { class: "network" };
+  }
+  return undefined;
+};
+
+const matchesStatus = (trigger: string, status: number): boolean => {
+  const range = trigger.match(/^(\d{3})-(\d{3})$/);
+  if (range) {
+    return status >= Number(range[1]) && status <= Number(range[2]);
+  }
+  if (/^\dxx$/i.test(trigger)) {
+    return Math.floor(status / 100) === Number(trigger[0]);
+  }
+  return trigger === String(status);
+};
+
+/**
+ * Whether a failure matches one of the triggers of a fallback rule.
+ * Context-length and empty-response failures also match their status code.
+ */
+export const matchesTrigger = (
+  failure: ClassifiedError,
+  triggers: string[]
+): boolean =>
+  triggers.some(
+    (trigger) =>
+      trigger === failure.class ||
+      (failure.status !== undefined && matchesStatus(trigger, failure.status))
+  );
+
+/**
+ * Whether a non-streaming Anthropic-format message carries nothing but
+ * blank text
+ */
+export const isEmptyMessage = (data: any): boolean => {
+  if (!data || !Array.isArray(data.content)) return false;
+  return data.content.every(
+    (block: any) => block?.type === "text" && !block.text?.trim()
+  );
+};
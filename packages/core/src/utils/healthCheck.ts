@@ -0,0 +1,143 @@
+export type HealthCheckCause =
+  | "dns"
+  | "tls"
+  | "connection"
+  | "timeout"
+  | "auth"
+  | "model"
+  | "rate_limit"
+  | "bad_request"
+  | "server"
+  | "empty_response"
+  | "invalid_response"
+  | "no_tool_call"
+  | "transformer";
+
+export interface HealthCheckStep {
+  ok: boolean;
+  // Round trip, from sending the request to the end of the response
+  latencyMs: number;
+  // Time to the first chunk, for streaming
+  firstByteMs?: number;
+  status?: number;
+  cause?: HealthCheckCause;
+  error?: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  model: string;
+  ok: boolean;
+  completion: HealthCheckStep;
+  streaming?: HealthCheckStep;
+  toolCalling?: HealthCheckStep;
+  checkedAt: string;
+}
+
+const TLS_CODE_PATTERN =
+  /^(CERT_|ERR_TLS_|ERR_SSL_|UNABLE_TO_|SELF_SIGNED_|DEPTH_ZERO_SELF_SIGNED|EPROTO$)/;
+const CONNECTION_CODES = [
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+];
+const TIMEOUT_CODES = [
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+];
+
+// Message of the upstream error body, without the wrapping added by
+// sendRequestToProvider
+const getUpstreamMessage = (message: string): string => {
+  const body = message.replace(/^Error from provider\([^)]*\): /, "");
+  try {
+    const data = JSON.parse(body);
+    const upstream = data?.error?.message || data?.message || data?.error;
+    if (typeof upstream === "string") return upstream.slice(0, 300);
+  } catch {}
+  return body.split("\n")[0].slice(0, 300);
+};
+
+/**
+ * Explain why a health check request failed
+ */
+export const diagnoseError = (
+  error: any,
+  baseUrl: string
+): Pick<HealthCheckStep, "cause" | "error" | "status"> => {
+  // Connection errors may carry one error per address tried
+  const cause = error?.cause?.errors?.[0] || error?.cause;
+  const code: string = cause?.code || error?.code || "";
+  let host = baseUrl;
+  try {
+    host = new URL(baseUrl).host;
+  } catch {}
+
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") {
+    return { cause: "dns", error: `Could not resolve ${host}` };
+  }
+  if (TLS_CODE_PATTERN.test(code)) {
+    return {
+      cause: "tls",
+      error: `TLS handshake with ${host} failed (${code}): ${cause?.message || error.message}`,
+    };
+  }
+  if (
+    error?.name === "TimeoutError" ||
+    cause?.name === "TimeoutError" ||
+    TIMEOUT_CODES.includes(code)
+  ) {
+    return { cause: "timeout", error: `No response from ${host} in time` };
+  }
+  if (CONNECTION_CODES.includes(code)) {
+    return { cause: "connection", error: `Could not connect to ${host} (${code})` };
+  }
+
+  // The key or token could not be obtained, nothing was sent
+  if (error?.code === "secret_resolution_failed" || error?.code === "token_fetch_failed") {
+    return { cause: "auth", status: error.statusCode, error: error.message };
+  }
+  if (error?.code === "network_config_error") {
+    return { cause: "connection", status: error.statusCode, error: error.message };
+  }
+  if (error?.code === "rate_limited") {
+    return { cause: "rate_limit", status: error.statusCode, error: error.message };
+  }
+  if (error?.code === "empty_response") {
+    return { cause: "empty_response", status: error.statusCode, error: error.message };
+  }
+  if (error?.code === "provider_response_error") {
+    const status: number = error.statusCode;
+    const message = getUpstreamMessage(error.message || "");
+    if (status === 401 || status === 403) {
+      return { cause: "auth", status, error: `API key rejected (${status}): ${message}` };
+    }
+    if (status === 404 || (status < 500 && /model/i.test(message))) {
+      return { cause: "model", status, error: `Model or endpoint not found (${status}): ${message}` };
+    }
+    if (status === 429) {
+      return { cause: "rate_limit", status, error: `Rate limited: ${message}` };
+    }
+    if (status >= 500) {
+      return { cause: "server", status, error: `Provider error (${status}): ${message}` };
+    }
+    return { cause: "bad_request", status, error: `Request rejected (${status}): ${message}` };
+  }
+
+  if (error?.message === "fetch failed") {
+    return {
+      cause: "connection",
+      error: `Could not connect to ${host}: ${cause?.message || error.message}`,
+    };
+  }
+  // Anything else was thrown while transforming the request or the response
+  return {
+    cause: "transformer",
+    error: `Transformer chain failed: ${error?.message || String(error)}`,
+  };
+};
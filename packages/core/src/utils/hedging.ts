@@ -0,0 +1,130 @@
+export interface HedgeOptions {
+  // Secondary "provider,model" the request is also sent to
+  target: string;
+  // Time without a first byte from the primary before the secondary is sent
+  delayMs?: number;
+}
+
+export interface HedgeSnapshot {
+  scenarioType: string;
+  requests: number;
+  hedged: number;
+  // Fraction of requests where the secondary was sent
+  hedgeRate: number;
+  primaryWins: number;
+  secondaryWins: number;
+  // Hedged requests where neither target responded
+  failures: number;
+}
+
+interface HedgeCounters {
+  requests: number;
+  hedged: number;
+  primaryWins: number;
+  secondaryWins: number;
+  failures: number;
+}
+
+const DEFAULT_DELAY_MS = 2000;
+
+/**
+ * Resolve the hedge of a scenario from the `hedging` config entry, keyed by
+ * scenario. Requests already routed to the secondary are not hedged.
+ */
+export const getHedgeOptions = (
+  config: Record<string, HedgeOptions> | undefined,
+  scenarioType: string,
+  target: string
+): Required<HedgeOptions> | undefined => {
+  const hedge = config?.[scenarioType];
+  if (!hedge?.target || hedge.target === target) return undefined;
+  return { delayMs: DEFAULT_DELAY_MS, ...hedge };
+};
+
+/**
+ * Resolve with the response once its first body chunk arrived. The chunk is
+ * put back in front of the rest of the body.
+ */
+export const waitForFirstByte = async (response: any): Promise<any> => {
+  if (!(response instanceof Response) || !response.body) return response;
+  const reader = response.body.getReader();
+  const first = await reader.read();
+  const body = new ReadableStream({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      if (first.done) return;
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Hedge rate and win counts per scenario
+ */
+export class HedgeStatsRegistry {
+  private counters: Map<string, HedgeCounters> = new Map();
+
+  recordRequest(scenarioType: string): void {
+    this.getCounters(scenarioType).requests++;
+  }
+
+  recordHedge(scenarioType: string): void {
+    this.getCounters(scenarioType).hedged++;
+  }
+
+  recordOutcome(
+    scenarioType: string,
+    winner: "primary" | "secondary" | "none"
+  ): void {
+    const counters = this.getCounters(scenarioType);
+    if (winner === "primary") counters.primaryWins++;
+    else if (winner === "secondary") counters.secondaryWins++;
+    else counters.failures++;
+  }
+
+  getSnapshots(): HedgeSnapshot[] {
+    return Array.from(this.counters.entries()).map(([scenarioType, counters]) => ({
+      scenarioType,
+      ...counters,
+      hedgeRate: counters.requests ? counters.hedged / counters.requests : 0,
+    }));
+  }
+
+  reset(): void {
+    this.counters.clear();
+  }
+
+  private getCounters(scenarioType: string): HedgeCounters {
+    let counters = this.counters.get(scenarioType);
+    if (!counters) {
+      counters = { requests: 0, hedged: 0, primaryWins: 0, secondaryWins: 0, failures: 0 };
+      this.counters.set(scenarioType, counters);
+    }
+    return counters;
+  }
+}
+
+export const hedgeStats = new HedgeStatsRegistry();
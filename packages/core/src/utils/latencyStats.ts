@@ -0,0 +1,158 @@
+export interface LatencyOptions {
+  // Targets whose p90 time to first token is above this are avoided
+  maxTtftP90Ms?: number;
+  // Age at which a sample counts half as much as a fresh one
+  halfLifeMs?: number;
+  // Samples younger than one half-life needed before a target counts as measured
+  minSamples?: number;
+}
+
+export interface LatencySample {
+  ttftMs?: number;
+  tokensPerSecond?: number;
+}
+
+export interface LatencySnapshot {
+  target: string;
+  samples: number;
+  // Samples younger than one half-life
+  recentSamples: number;
+  ttftP50?: number;
+  ttftP90?: number;
+  tokensPerSecond?: number;
+  lastSampleAt: string;
+}
+
+interface StoredSample extends LatencySample {
+  time: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<LatencyOptions, "maxTtftP90Ms">> = {
+  halfLifeMs: 10 * 60 * 1000,
+  minSamples: 3,
+};
+
+const MAX_SAMPLES = 200;
+
+export const getLatencyOptions = (config: LatencyOptions | undefined) => ({
+  ...DEFAULT_OPTIONS,
+  ...config,
+});
+
+const weightedPercentile = (
+  values: Array<{ value: number; weight: number }>,
+  percentile: number
+): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative >= total * percentile) return item.value;
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+/**
+ * Rolling time-to-first-token and throughput per "provider,model".
+ * Samples decay exponentially with age, so a target that was slow once
+ * drops back to unmeasured and gets traffic again.
+ */
+export class LatencyStatsRegistry {
+  private samples: Map<string, StoredSample[]> = new Map();
+
+  record(target: string, sample: LatencySample): void {
+    let list = this.samples.get(target);
+    if (!list) {
+      list = [];
+      this.samples.set(target, list);
+    }
+    list.push({ ...sample, time: Date.now() });
+    if (list.length > MAX_SAMPLES) {
+      list.splice(0, list.length - MAX_SAMPLES);
+    }
+  }
+
+  getStats(
+    target: string,
+    options: LatencyOptions = {}
+  ): LatencySnapshot | undefined {
+    const { halfLifeMs } = getLatencyOptions(options);
+    const list = this.samples.get(target);
+    if (!list || list.length === 0) return undefined;
+
+    const now = Date.now();
+    // Samples older than ten half-lives weigh less than 0.1%
+    const cutoff = now - halfLifeMs * 10;
+    const fresh = list.filter((sample) => sample.time >= cutoff);
+    if (fresh.length !== list.length) {
+      this.samples.set(target, fresh);
+    }
+    if (fresh.length === 0) return undefined;
+
+    const weighted = fresh.map((sample) => ({
+      sample,
+      weight: Math.pow(0.5, (now - sample.time) / halfLifeMs),
+    }));
+    const ttfts = weighted
+      .filter(({ sample }) => typeof sample.ttftMs === "number")
+      .map(({ sample, weight }) => ({ value: sample.ttftMs!, weight }));
+    const speeds = weighted.filter(
+      ({ sample }) => typeof sample.tokensPerSecond === "number"
+    );
+    const speedWeight = speeds.reduce((sum, { weight }) => sum + weight, 0);
+
+    return {
+      target,
+      samples: fresh.length,
+      recentSamples: weighted.filter(({ weight }) => weight > 0.5).length,
+      ttftP50: weightedPercentile(ttfts, 0.5),
+      ttftP90: weightedPercentile(ttfts, 0.9),
+      tokensPerSecond: speedWeight
+        ? speeds.reduce(
+            (sum, { sample, weight }) => sum + sample.tokensPerSecond! * weight,
+            0
+          ) / speedWeight
+        : undefined,
+      lastSampleAt: new Date(fresh[fresh.length - 1].time).toISOString(),
+    };
+  }
+
+  /**
+   * Stats backed by enough recent samples to route on, undefined otherwise
+   */
+  getMeasured(target: string, options: LatencyOptions = {}): LatencySnapshot | undefined {
+    const stats = this.getStats(target, options);
+    if (!stats || stats.recentSamples < getLatencyOptions(options).minSamples) {
+      return undefined;
+    }
+    return stats;
+  }
+
+  /**
+   * Whether the target's p90 TTFT is within `maxTtftP90Ms`.
+   * Unmeasured targets are always acceptable.
+   */
+  isWithinLimits(target: string, options: LatencyOptions = {}): boolean {
+    if (!options.maxTtftP90Ms) return true;
+    const ttftP90 = this.getMeasured(target, options)?.ttftP90;
+    return ttftP90 === undefined || ttftP90 <= options.maxTtftP90Ms;
+  }
+
+  getSnapshots(options: LatencyOptions = {}): LatencySnapshot[] {
+    return Array.from(this.samples.keys())
+      .map((target) => this.getStats(target, options))
+      .filter((stats): stats is LatencySnapshot => !!stats);
+  }
+
+  reset(target?: string): void {
+    if (target) {
+      this.samples.delete(target);
+    } else {
+      this.samples.clear();
+    }
+  }
+}
+
+export const latencyStats = new LatencyStatsRegistry();
@@ -0,0 +1,218 @@
+import { LatencyOptions, latencyStats } from "./latencyStats";
+
+export type LoadBalanceStrategy =
+  | "weighted"
+  | "round-robin"
+  | "least-outstanding"
+  | "fastest";
+
+export interface WeightedTarget {
+  model: string;
+  weight?: number;
+}
+
+/**
+ * Value of a Router slot or rule target:
+ * - "provider,model"
+ * - a list of targets: ["a,x", { "model": "b,y", "weight": 3 }]
+ * - a list with its own strategy: { "strategy": "round-robin", "targets": [...] }
+ */
+export type RouterTargetSpec =
+  | string
+  | Array<string | WeightedTarget>
+  | { strategy?: LoadBalanceStrategy; targets: Array<string | WeightedTarget> };
+
+export interface TargetSelection {
+  model: string;
+  // All targets of the spec, the selected one first
+  candidates: string[];
+  strategy?: LoadBalanceStrategy;
+}
+
+export interface SelectOptions {
+  // Strategy for lists that do not set their own
+  strategy?: LoadBalanceStrategy;
+  // Compute the selection without advancing round-robin cursors
+  dryRun?: boolean;
+  latency?: LatencyOptions;
+}
+
+const normalizeTargets = (
+  targets: Array<string | WeightedTarget>
+): Required<WeightedTarget>[] =>
+  targets
+    .map((target) =>
+      typeof target === "string"
+        ? { model: target, weight: 1 }
+        : { model: target?.model, weight: target?.weight ?? 1 }
+    )
+    .filter((target) => !!target.model && target.weight > 0);
+
+/**
+ * All "provider,model" targets of a spec, in configured order
+ */
+export const getTargetModels = (spec: RouterTargetSpec | undefined): string[] => {
+  if (!spec) return [];
+  if (typeof spec === "string") return [spec];
+  const list = Array.isArray(spec) ? spec : spec.targets;
+  return Array.isArray(list) ? normalizeTargets(list).map((target) => target.model) : [];
+};
+
+/**
+ * Narrow a spec to the targets accepted by `keep`, keeping weights and strategy.
+ * The spec is returned unchanged when no target would be left.
+ */
+export const filterTargets = (
+  spec: RouterTargetSpec | undefined,
+  keep: (model: string) => boolean
+): RouterTargetSpec | undefined => {
+  if (!spec || typeof spec === "string") return spec;
+  const list = Array.isArray(spec) ? spec : spec.targets;
+  if (!Array.isArray(list)) return spec;
+  const kept = list.filter((target) => {
+    const model = typeof target === "string" ? target : target?.model;
+    return !!model && keep(model);
+  });
+  if (kept.length === 0 || kept.length === list.length) return spec;
+  return Array.isArray(spec) ? kept : { ...spec, targets: kept };
+};
+
+/**
+ * Spreads traffic across the targets of one routing slot.
+ * Round-robin cursors are kept per target list, outstanding counts per model.
+ */
+export class LoadBalancer {
+  private cursors: Map<string, number> = new Map();
+  private outstanding: Map<string, number> = new Map();
+
+  select(
+    spec: RouterTargetSpec | undefined,
+    options: SelectOptions = {}
+  ): TargetSelection | undefined {
+    const { strategy: defaultStrategy = "weighted", dryRun = false, latency } = options;
+    if (!spec) return undefined;
+    if (typeof spec === "string") {
+      return { model: spec, candidates: [spec] };
+    }
+
+    const list = Array.isArray(spec) ? spec : spec.targets;
+    const strategy =
+      (!Array.isArray(spec) && spec.strategy) || defaultStrategy;
+    if (!Array.isArray(list)) return undefined;
+    const targets = normalizeTargets(list);
+    if (targets.length === 0) return undefined;
+    if (targets.length === 1) {
+      return { model: targets[0].model, candidates: [targets[0].model], strategy };
+    }
+
+    // Avoid targets that are measured as too slow, unless all of them are
+    const withinLimits = targets.filter((target) =>
+      latencyStats.isWithinLimits(target.model, latency)
+    );
+    const pool = withinLimits.length > 0 ? withinLimits : targets;
+
+    let index: number;
+    switch (strategy) {
+      case "round-robin":
+        index = this.nextRoundRobin(pool, dryRun);
+        break;
+      case "least-outstanding":
+        index = this.leastOutstanding(pool);
+        break;
+      case "fastest":
+        index = this.fastest(pool, latency);
+        break;
+      case "weighted":
+      default:
+        index = this.pickWeighted(pool);
+        break;
+    }
+
+    const model = pool[index].model;
+    return {
+      model,
+      candidates: [
+        model,
+        ...targets.map((target) => target.model).filter((m) => m !== model),
+      ],
+      strategy,
+    };
+  }
+
+  /**
+   * Mark a request as in flight for the given target
+   */
+  acquire(model: string): void {
+    this.outstanding.set(model, (this.outstanding.get(model) || 0) + 1);
+  }
+
+  release(model: string): void {
+    const count = (this.outstanding.get(model) || 0) - 1;
+    if (count > 0) {
+      this.outstanding.set(model, count);
+    } else {
+      this.outstanding.delete(model);
+    }
+  }
+
+  getOutstanding(): Record<string, number> {
+    return Object.fromEntries(this.outstanding);
+  }
+
+  private pickWeighted(targets: Required<WeightedTarget>[]): number {
+    const total = targets.reduce((sum, target) => sum + target.weight, 0);
+    let point = Math.random() * total;
+    for (let i = 0; i < targets.length; i++) {
+      point -= targets[i].weight;
+      if (point < 0) return i;
+    }
+    return targets.length - 1;
+  }
+
+  private nextRoundRobin(targets: Required<WeightedTarget>[], dryRun: boolean): number {
+    const key = targets.map((target) => target.model).join("|");
+    const cursor = this.cursors.get(key) || 0;
+    if (!dryRun) {
+      this.cursors.set(key, (cursor + 1) % targets.length);
+    }
+    return cursor % targets.length;
+  }
+
+  /**
+   * Highest measured tokens/sec. Unmeasured targets go first so that every
+   * target gets measured, and again once its stats have decayed.
+   */
+  private fastest(
+    targets: Required<WeightedTarget>[],
+    latency?: LatencyOptions
+  ): number {
+    let best = 0;
+    let bestSpeed = -1;
+    for (let i = 0; i < targets.length; i++) {
+      const stats = latencyStats.getMeasured(targets[i].model, latency);
+      if (!stats) return i;
+      const speed = stats.tokensPerSecond ?? 0;
+      if (speed > bestSpeed) {
+        best = i;
+        bestSpeed = speed;
+      }
+    }
+    return best;
+  }
+
+  private leastOutstanding(targets: Required<WeightedTarget>[]): number {
+    let best = 0;
+    let bestLoad = Infinity;
+    targets.forEach((target, i) => {
+      // Heavier targets are allowed proportionally more requests in flight
+      const load = (this.outstanding.get(target.model) || 0) / target.weight;
+      if (load < bestLoad) {
+        best = i;
+        bestLoad = load;
+      }
+    });
+    return best;
+  }
+}
+
+export const loadBalancer = new LoadBalancer();
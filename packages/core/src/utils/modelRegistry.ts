@@ -0,0 +1,38 @@
+import { ModelInfo, ModelPricing, resolveModelInfo } from "@CCR/shared";
+
+/**
+ * Look up what is known about a "provider,model" target: the built-in
+ * registry, then the provider's `modelInfo`, then the `pricing` config,
+ * whose entries are keyed by "provider,model" or by the bare model name.
+ */
+export const getTargetModelInfo = (
+  target: string,
+  providers: any[] = [],
+  pricing?: Record<string, ModelPricing>
+): ModelInfo | undefined => {
+  const [providerName, ...rest] = target.split(",");
+  const model = rest.length ? rest.join(",") : target;
+  const provider = rest.length
+    ? providers.find((p: any) => p.name === providerName)
+    : undefined;
+  const info = resolveModelInfo(model, provider);
+  const price = pricing?.[target] || pricing?.[model];
+  if (!price) return info;
+  return { ...info, pricing: price };
+};
+
+/**
+ * Whether any message carries an image, directly or inside a tool result
+ */
+export const hasImageContent = (messages: any[] | undefined): boolean =>
+  Array.isArray(messages) &&
+  messages.some(
+    (message) =>
+      Array.isArray(message?.content) &&
+      message.content.some(
+        (item: any) =>
+          item?.type === "image" ||
+          (Array.isArray(item?.content) &&
+            item.content.some((sub: any) => sub?.type === "image"))
+      )
+  );
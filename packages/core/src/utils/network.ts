@@ -0,0 +1,321 @@
+import net from "net";
+import os from "os";
+import path from "path";
+import { rootCertificates } from "tls";
+import { readFile } from "fs/promises";
+import { Agent, Dispatcher, Pool, ProxyAgent } from "undici";
+import { HOME_DIR, isSecretRef, resolveSecret } from "@CCR/shared";
+import { createSocksConnector } from "./socks";
+
+/**
+ * `network` entry of a provider, or the top-level one shared by all providers
+ */
+export interface NetworkOptions {
+  // http://, https:// or socks5:// URL. false connects directly even when a
+  // global proxy is set.
+  proxy?: string | false;
+  // Hosts reached without the proxy, in NO_PROXY syntax
+  noProxy?: string | string[];
+  // Sent with every request; values may be secret references
+  headers?: Record<string, string>;
+  // PEM contents, file paths or secret references. `ca` adds to the
+  // built-in root certificates; `cert` and `key` are the client certificate.
+  ca?: string;
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  connectTimeoutMs?: number;
+  // From sending the request until the response headers arrive
+  firstByteTimeoutMs?: number;
+  // Longest pause between two chunks of the response body
+  idleTimeoutMs?: number;
+  // How long an idle connection is kept open for the next request
+  keepAliveTimeoutMs?: number;
+  // Connections per origin, unlimited by default
+  maxSockets?: number;
+  // Offer HTTP/2 in the TLS handshake; HTTP/1.1 is used when the upstream
+  // does not support it
+  http2?: boolean;
+}
+
+export interface ConnectionPoolSnapshot {
+  provider: string;
+  // Scheme and host of the proxy, without credentials
+  proxy?: string;
+  http2: boolean;
+  maxSockets?: number;
+  keepAliveTimeoutMs: number;
+  requests: number;
+  connectionsOpened: number;
+  // Share of requests sent on a connection that was already open
+  reuseRatio?: number;
+  connected: number;
+  free: number;
+  running: number;
+  pending: number;
+  queued: number;
+}
+
+export const PROXY_PROTOCOLS = ["http:", "https:", "socks:", "socks5:", "socks5h:"];
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_FIRST_BYTE_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_KEEP_ALIVE_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Resolve the network options of a provider from its `network` entry over
+ * the global ones. Headers of both are sent.
+ */
+export const getNetworkOptions = (
+  providerConfig: NetworkOptions | undefined,
+  globalConfig: NetworkOptions | undefined
+): NetworkOptions => ({
+  ...globalConfig,
+  ...providerConfig,
+  headers: { ...globalConfig?.headers, ...providerConfig?.headers },
+});
+
+const toList = (value: string | string[] | undefined): string[] =>
+  (Array.isArray(value) ? value : (value || "").split(/[,\s]+/))
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+const matchesNoProxyEntry = (host: string, port: string, entry: string): boolean => {
+  if (entry === "*") return true;
+  if (entry.includes("/")) {
+    const [address, prefix] = entry.split("/");
+    const family = net.isIPv6(address) ? "ipv6" : "ipv4";
+    if (!net.isIP(address) || (net.isIPv6(host) ? "ipv6" : "ipv4") !== family || !net.isIP(host)) {
+      return false;
+    }
+    const subnet = new net.BlockList();
+    subnet.addSubnet(address, Number(prefix), family);
+    return subnet.check(host, family);
+  }
+  let pattern = entry;
+  let entryPort: string | undefined;
+  const bracketed = entry.match(/^\[(.+)\](?::(\d+))?$/);
+  const withPort = net.isIPv6(entry) ? null : entry.match(/^(.+):(\d+)$/);
+  if (bracketed || withPort) {
+    [, pattern, entryPort] = (bracketed || withPort)!;
+  }
+  if (entryPort && entryPort !== port) return false;
+  pattern = pattern.replace(/^\*?\./, "");
+  return host === pattern || host.endsWith(`.${pattern}`);
+};
+
+/**
+ * Proxy the request to `url` goes through, if any. Hosts matched by
+ * `noProxy` are reached directly: "*", a domain and its subdomains
+ * (optionally with a port), an IP address or a CIDR range.
+ */
+export const getProxy = (
+  url: URL | string,
+  options: NetworkOptions
+): string | undefined => {
+  if (!options.proxy) return undefined;
+  const target = new URL(url.toString());
+  const host = target.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const port = target.port || (target.protocol === "https:" ? "443" : "80");
+  return toList(options.noProxy).some((entry) => matchesNoProxyEntry(host, port, entry))
+    ? undefined
+    : options.proxy;
+};
+
+/**
+ * Path of a file named in the config: `~` is the home directory and relative
+ * paths start at ~/.claude-code-router
+ */
+export const expandPath = (filePath: string): string =>
+  filePath.startsWith("~")
+    ? path.join(os.homedir(), filePath.slice(1))
+    : path.resolve(HOME_DIR, filePath);
+
+const readPem = async (name: string, value: string): Promise<string> => {
+  if (value.trim().startsWith("-----BEGIN")) return value;
+  try {
+    return isSecretRef(value)
+      ? await resolveSecret(value)
+      : await readFile(expandPath(value), "utf-8");
+  } catch (error: any) {
+    throw new Error(`cannot read ${name}: ${error.message}`);
+  }
+};
+
+interface ConnectionPool {
+  dispatcher: Promise<Dispatcher>;
+  proxy?: string;
+  options: NetworkOptions;
+  // undici pool of each origin, for its connection counts
+  pools: Map<string, Pool>;
+  requests: number;
+  connectionsOpened: number;
+}
+
+const createDispatcher = async (entry: ConnectionPool): Promise<Dispatcher> => {
+  const { options, proxy } = entry;
+  const ca = options.ca ? await readPem("ca", options.ca) : undefined;
+  const tls = {
+    ca: ca ? [...rootCertificates, ca] : undefined,
+    cert: options.cert ? await readPem("cert", options.cert) : undefined,
+    key: options.key ? await readPem("key", options.key) : undefined,
+    passphrase: options.passphrase ? await resolveSecret(options.passphrase) : undefined,
+    timeout: options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS,
+    allowH2: !!options.http2,
+  };
+  const poolOptions = {
+    headersTimeout: options.firstByteTimeoutMs ?? DEFAULT_FIRST_BYTE_TIMEOUT_MS,
+    bodyTimeout: options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+    keepAliveTimeout: options.keepAliveTimeoutMs ?? DEFAULT_KEEP_ALIVE_TIMEOUT_MS,
+    connections: options.maxSockets || null,
+    allowH2: !!options.http2,
+    factory: (origin: string | URL, opts: object) => {
+      const pool = new Pool(origin, opts);
+      pool.on("connect", () => entry.connectionsOpened++);
+      entry.pools.set(String(origin), pool);
+      return pool;
+    },
+  };
+
+  let dispatcher: Dispatcher;
+  const proxyUrl = proxy ? new URL(proxy) : undefined;
+  if (!proxyUrl) {
+    dispatcher = new Agent({ ...poolOptions, connect: tls });
+  } else if (!PROXY_PROTOCOLS.includes(proxyUrl.protocol)) {
+    throw new Error(`unsupported proxy protocol ${proxyUrl.protocol}`);
+  } else if (proxyUrl.protocol.startsWith("socks")) {
+    dispatcher = new Agent({ ...poolOptions, connect: createSocksConnector(proxyUrl, tls) });
+  } else {
+    // CONNECT tunnels for http:// origins too; forwarding plain requests
+    // stalls with the fetch bundled in Node
+    dispatcher = new ProxyAgent({
+      uri: proxyUrl.toString(),
+      proxyTunnel: true,
+      ...poolOptions,
+      requestTls: tls,
+      proxyTls: { ca: tls.ca, timeout: tls.timeout },
+    });
+  }
+  return dispatcher.compose((dispatch) => (opts, handler) => {
+    entry.requests++;
+    return dispatch(opts, handler);
+  });
+};
+
+/**
+ * Keep-alive connection pools of each provider, one per proxy its URLs go
+ * through, so requests of a long session reuse connections and TLS sessions.
+ * The pools of a provider are replaced when its network or proxy settings
+ * change, and dropped when it is removed; old pools close once their
+ * requests are done.
+ */
+export class ConnectionPoolRegistry {
+  private providers: Map<
+    string,
+    { signature: string; entries: Map<string, ConnectionPool> }
+  > = new Map();
+
+  /**
+   * Dispatcher for requests of `provider` to `url`. Certificate files are
+   * read when the first request is sent.
+   */
+  get(provider: string, url: URL | string, options: NetworkOptions): Promise<Dispatcher> {
+    const signature = JSON.stringify([
+      options.proxy,
+      options.noProxy,
+      options.ca,
+      options.cert,
+      options.key,
+      options.passphrase,
+      options.connectTimeoutMs,
+      options.firstByteTimeoutMs,
+      options.idleTimeoutMs,
+      options.keepAliveTimeoutMs,
+      options.maxSockets,
+      options.http2,
+    ]);
+    let pools = this.providers.get(provider);
+    if (pools?.signature !== signature) {
+      this.remove(provider);
+      pools = { signature, entries: new Map() };
+      this.providers.set(provider, pools);
+    }
+
+    const proxy = getProxy(url, options);
+    const key = proxy || "";
+    const current = pools.entries.get(key);
+    if (current) {
+      return current.dispatcher;
+    }
+    const entries = pools.entries;
+    const entry = {
+      proxy,
+      options,
+      pools: new Map(),
+      requests: 0,
+      connectionsOpened: 0,
+    } as ConnectionPool;
+    entry.dispatcher = createDispatcher(entry);
+    entry.dispatcher.catch(() => {
+      if (entries.get(key) === entry) entries.delete(key);
+    });
+    entries.set(key, entry);
+    return entry.dispatcher;
+  }
+
+  /**
+   * Close the pools of a provider once their requests are done
+   */
+  remove(provider: string): void {
+    this.providers.get(provider)?.entries.forEach((entry) => {
+      entry.dispatcher.then((dispatcher) => dispatcher.close()).catch(() => {});
+    });
+    this.providers.delete(provider);
+  }
+
+  getSnapshots(): ConnectionPoolSnapshot[] {
+    return Array.from(this.providers.entries()).flatMap(([provider, { entries }]) =>
+      Array.from(entries.values()).map((entry) => {
+        const totals = { connected: 0, free: 0, running: 0, pending: 0, queued: 0 };
+        entry.pools.forEach((pool) => {
+          const stats = pool.stats;
+          totals.connected += stats.connected;
+          totals.free += stats.free;
+          totals.running += stats.running;
+          totals.pending += stats.pending;
+          totals.queued += stats.queued;
+        });
+        const proxyUrl = entry.proxy ? new URL(entry.proxy) : undefined;
+        return {
+          provider,
+          proxy: proxyUrl ? `${proxyUrl.protocol}//${proxyUrl.host}` : undefined,
+          http2: !!entry.options.http2,
+          maxSockets: entry.options.maxSockets,
+          keepAliveTimeoutMs: entry.options.keepAliveTimeoutMs ?? DEFAULT_KEEP_ALIVE_TIMEOUT_MS,
+          requests: entry.requests,
+          connectionsOpened: entry.connectionsOpened,
+          reuseRatio: entry.requests
+            ? Math.max(0, Math.round((1 - entry.connectionsOpened / entry.requests) * 100) / 100)
+            : undefined,
+          ...totals,
+        };
+      })
+    );
+  }
+}
+
+/**
+ * `headers` of the network options with secret references resolved
+ */
+export const resolveNetworkHeaders = async (
+  headers: Record<string, string> | undefined
+): Promise<Record<string, string>> => {
+  const resolved: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers || {})) {
+    resolved[name] = await resolveSecret(String(value));
+  }
+  return resolved;
+};
+
+export const connectionPools = new ConnectionPoolRegistry();
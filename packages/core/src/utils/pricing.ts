@@ -0,0 +1,22 @@
+import type { ModelPricing } from "@CCR/shared";
+
+export type ModelPrice = ModelPricing;
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/**
+ * Cost of a request in USD. Cached tokens fall back to the input price.
+ */
+export const calculateCost = (usage: TokenUsage, price: ModelPrice): number => {
+  const cost =
+    (usage.input_tokens || 0) * price.input +
+    (usage.output_tokens || 0) * price.output +
+    (usage.cache_read_input_tokens || 0) * (price.cacheRead ?? price.input) +
+    (usage.cache_creation_input_tokens || 0) * (price.cacheWrite ?? price.input);
+  return cost / 1_000_000;
+};
@@ -0,0 +1,289 @@
+import { createApiError } from "../api/middleware";
+
+export interface RateLimitOptions {
+  // Requests per minute
+  rpm?: number;
+  // Input tokens per minute, as estimated by the router
+  tpm?: number;
+}
+
+/**
+ * `rateLimit` entry of a provider. The provider limits are shared by all of
+ * its models; `models` adds limits of single models on top.
+ */
+export interface RateLimitConfig extends RateLimitOptions {
+  models?: Record<string, RateLimitOptions>;
+  // Requests that may wait for capacity at once
+  maxQueue?: number;
+  // Longest a request waits for capacity before it is rejected
+  maxWaitMs?: number;
+}
+
+export interface RateLimitSnapshot {
+  // "provider" or "provider,model"
+  target: string;
+  rpm?: number;
+  tpm?: number;
+  availableRequests?: number;
+  availableTokens?: number;
+}
+
+export interface RateLimitQueueSnapshot {
+  provider: string;
+  queued: number;
+  maxQueue: number;
+  maxWaitMs: number;
+}
+
+const DEFAULT_MAX_QUEUE = 50;
+const DEFAULT_MAX_WAIT_MS = 30 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Continuously refilled bucket: `capacity` units per minute, starting full
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(public capacity: number) {
+    this.tokens = capacity;
+  }
+
+  resize(capacity: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, capacity);
+    this.capacity = capacity;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  // Milliseconds until `cost` units are available. A cost above the
+  // capacity waits for a full bucket.
+  waitTime(cost: number): number {
+    const needed = Math.min(cost, this.capacity) - this.available();
+    return needed <= 0 ? 0 : Math.ceil((needed * MINUTE_MS) / this.capacity);
+  }
+
+  take(cost: number): void {
+    this.refill();
+    this.tokens -= Math.min(cost, this.capacity);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) * this.capacity) / MINUTE_MS
+    );
+    this.updatedAt = now;
+  }
+}
+
+interface Charge {
+  bucket: TokenBucket;
+  cost: number;
+}
+
+interface Waiter {
+  charges: Charge[];
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  onAbort?: () => void;
+  signal?: AbortSignal;
+}
+
+interface Queue {
+  waiters: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+  maxQueue: number;
+  maxWaitMs: number;
+}
+
+// Same shape as the rate limit errors of the Anthropic API
+const rateLimitError = (message: string) =>
+  createApiError(message, 429, "rate_limited", "rate_limit_error");
+
+const waitTime = (charges: Charge[]): number =>
+  Math.max(0, ...charges.map(({ bucket, cost }) => bucket.waitTime(cost)));
+
+/**
+ * Client-side RPM/TPM limits per provider and per "provider,model".
+ * Requests over the limit wait in a FIFO queue per provider, bounded in
+ * length and in waiting time.
+ */
+export class RateLimiterRegistry {
+  private buckets: Map<string, TokenBucket> = new Map();
+  private queues: Map<string, Queue> = new Map();
+
+  /**
+   * Resolve once the request fits in the limits of the provider and the
+   * model. Rejects with a 429 `rate_limit_error` when the queue is full or
+   * the wait would exceed `maxWaitMs`.
+   */
+  async acquire(
+    provider: string,
+    model: string,
+    tokens: number,
+    config: RateLimitConfig,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const charges = [
+      ...this.getCharges(provider, config, tokens),
+      ...this.getCharges(`${provider},${model}`, config.models?.[model], tokens),
+    ];
+    if (charges.length === 0) return;
+
+    const queue = this.getQueue(provider, config);
+    const wait = waitTime(charges);
+    if (queue.waiters.length === 0 && wait === 0) {
+      charges.forEach(({ bucket, cost }) => bucket.take(cost));
+      return;
+    }
+    if (queue.waiters.length >= queue.maxQueue) {
+      throw rateLimitError(
+        `Rate limit queue of ${provider} is full (${queue.maxQueue} requests waiting)`
+      );
+    }
+    if (wait > queue.maxWaitMs) {
+      throw rateLimitError(
+        `Rate limit of ${provider},${model} reached, next slot in ${Math.ceil(wait / 1000)}s`
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        charges,
+        resolve,
+        reject,
+        signal,
+        timer: setTimeout(() => {
+          this.remove(queue, waiter);
+          reject(
+            rateLimitError(
+              `Waited ${Math.ceil(queue.maxWaitMs / 1000)}s for the rate limit of ${provider},${model}`
+            )
+          );
+        }, queue.maxWaitMs),
+      };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.remove(queue, waiter);
+          reject(signal.reason ?? new Error("Aborted"));
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      queue.waiters.push(waiter);
+      this.drain(queue);
+    });
+  }
+
+  getSnapshots(): RateLimitSnapshot[] {
+    return Array.from(this.buckets.entries())
+      .reduce<RateLimitSnapshot[]>((snapshots, [key, bucket]) => {
+        const [target, kind] = [key.slice(0, -4), key.slice(-3)];
+        let snapshot = snapshots.find((entry) => entry.target === target);
+        if (!snapshot) {
+          snapshot = { target };
+          snapshots.push(snapshot);
+        }
+        if (kind === "rpm") {
+          snapshot.rpm = bucket.capacity;
+          snapshot.availableRequests = Math.floor(bucket.available());
+        } else {
+          snapshot.tpm = bucket.capacity;
+          snapshot.availableTokens = Math.floor(bucket.available());
+        }
+        return snapshots;
+      }, []);
+  }
+
+  getQueueSnapshots(): RateLimitQueueSnapshot[] {
+    return Array.from(this.queues.entries()).map(([provider, queue]) => ({
+      provider,
+      queued: queue.waiters.length,
+      maxQueue: queue.maxQueue,
+      maxWaitMs: queue.maxWaitMs,
+    }));
+  }
+
+  // Serve waiters in order as soon as the head one fits
+  private drain(queue: Queue): void {
+    if (queue.timer) {
+      clearTimeout(queue.timer);
+      queue.timer = undefined;
+    }
+    while (queue.waiters.length) {
+      const head = queue.waiters[0];
+      const wait = waitTime(head.charges);
+      if (wait > 0) {
+        queue.timer = setTimeout(() => this.drain(queue), wait);
+        return;
+      }
+      head.charges.forEach(({ bucket, cost }) => bucket.take(cost));
+      queue.waiters.shift();
+      this.release(head);
+      head.resolve();
+    }
+  }
+
+  // A waiter that gave up; the next one may fit now
+  private remove(queue: Queue, waiter: Waiter): void {
+    const index = queue.waiters.indexOf(waiter);
+    if (index === -1) return;
+    queue.waiters.splice(index, 1);
+    this.release(waiter);
+    if (index === 0) this.drain(queue);
+  }
+
+  private release(waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    if (waiter.onAbort) {
+      waiter.signal?.removeEventListener("abort", waiter.onAbort);
+    }
+  }
+
+  private getCharges(
+    target: string,
+    options: RateLimitOptions | undefined,
+    tokens: number
+  ): Charge[] {
+    const charges: Charge[] = [];
+    if (options?.rpm && options.rpm > 0) {
+      charges.push({ bucket: this.getBucket(`${target}:rpm`, options.rpm), cost: 1 });
+    }
+    if (options?.tpm && options.tpm > 0) {
+      charges.push({ bucket: this.getBucket(`${target}:tpm`, options.tpm), cost: tokens });
+    }
+    return charges;
+  }
+
+  // Limits follow config changes without losing what was already used
+  private getBucket(key: string, capacity: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(capacity);
+      this.buckets.set(key, bucket);
+    } else if (bucket.capacity !== capacity) {
+      bucket.resize(capacity);
+    }
+    return bucket;
+  }
+
+  private getQueue(provider: string, config: RateLimitConfig): Queue {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = { waiters: [], maxQueue: 0, maxWaitMs: 0 };
+      this.queues.set(provider, queue);
+    }
+    queue.maxQueue = config.maxQueue ?? DEFAULT_MAX_QUEUE;
+    queue.maxWaitMs = config.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    return queue;
+  }
+}
+
+export const rateLimiters = new RateLimiterRegistry();
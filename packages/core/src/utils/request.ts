@@ -1,7 +1,23 @@
-import { ProxyAgent } from "undici";
 import { UnifiedChatRequest } from "../types/llm";
+import type { RequestSigner } from "./sigv4";
 
-export function sendUnifiedRequest(
+const CREDENTIAL_HEADERS = [
+  "authorization",
+  "x-api-key",
+  "x-goog-api-key",
+  "x-amz-security-token",
+];
+
+// Headers as logged: credentials are masked
+const redactHeaders = (headers: Headers): Record<string, string> => {
+  const redacted: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    redacted[name] = CREDENTIAL_HEADERS.includes(name.toLowerCase()) ? "***" : value;
+  });
+  return redacted;
+};
+
+export async function sendUnifiedRequest(
   url: URL | string,
   request: UnifiedChatRequest,
   config: any,
@@ -18,38 +34,31 @@ export function sendUnifiedRequest(
       }
     });
   }
-  let combinedSignal: AbortSignal;
-  const timeoutSignal = AbortSignal.timeout(config.TIMEOUT ?? 60 * 1000 * 60);
-
-  if (config.signal) {
-    const controller = new AbortController();
-    const abortHandler = () => controller.abort();
-    config.signal.addEventListener("abort", abortHandler);
-    timeoutSignal.addEventListener("abort", abortHandler);
-    combinedSignal = controller.signal;
-  } else {
-    combinedSignal = timeoutSignal;
+  const body = JSON.stringify(request);
+  // Set by transformers whose upstream authenticates a signature of the
+  // request, such as SigV4
+  const signRequest: RequestSigner | undefined = config.signRequest;
+  if (signRequest) {
+    await signRequest({ method: "POST", url: new URL(url.toString()), headers, body });
   }
-
+  // Connect, first byte and idle timeouts are set on the dispatcher
   const fetchOptions: RequestInit = {
     method: "POST",
     headers: headers,
-    body: JSON.stringify(request),
-    signal: combinedSignal,
+    body,
+    signal: config.signal,
   };
 
-  if (config.httpsProxy) {
-    (fetchOptions as any).dispatcher = new ProxyAgent(
-      new URL(config.httpsProxy).toString()
-    );
+  if (config.dispatcher) {
+    (fetchOptions as any).dispatcher = config.dispatcher;
   }
   logger?.debug(
     {
       reqId: context.req.id,
       request: fetchOptions,
-      headers: Object.fromEntries(headers.entries()),
+      headers: redactHeaders(headers),
       requestUrl: typeof url === "string" ? url : url.toString(),
-      useProxy: config.httpsProxy,
+      useProxy: config.proxy,
     },
     "final request"
   );
@@ -0,0 +1,144 @@
+export interface RetryOptions {
+  // Total attempts, the first one included
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  // Upper bound of a single wait. When the upstream asks for a longer wait,
+  // retries stop and the request moves on to the fallback list.
+  maxDelayMs?: number;
+  // Random spread applied to each backoff delay, as a fraction of it
+  jitter?: number;
+  retryableStatuses?: number[];
+  // Also retry requests that failed without a response (connection reset, timeout)
+  retryNetworkErrors?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  jitter: 0.2,
+  retryableStatuses: [408, 429, 500, 502, 503, 504, 529],
+  retryNetworkErrors: true,
+};
+
+/**
+ * Resolve the retry policy of a provider from its `retry` entry over the
+ * top-level `retry` config entry. Requests are not retried unless either is present.
+ */
+export const getRetryOptions = (
+  providerConfig: RetryOptions | undefined,
+  globalConfig: RetryOptions | undefined
+): Required<RetryOptions> => {
+  if (!providerConfig && !globalConfig) {
+    return { ...DEFAULT_OPTIONS, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_OPTIONS, ...globalConfig, ...providerConfig };
+};
+
+/**
+ * Parse a reset header value into milliseconds from now. Accepts seconds,
+ * epoch seconds, durations such as "1m30s" or "250ms", and HTTP / ISO dates.
+ */
+const parseResetValue = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const text = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const number = parseFloat(text);
+    // Large values are timestamps rather than a number of seconds
+    return number > 1e9 ? number * 1000 - Date.now() : number * 1000;
+  }
+
+  const duration = text.match(
+    /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/
+  );
+  if (duration && duration.slice(1).some(Boolean)) {
+    const [, hours, minutes, seconds, millis] = duration.map((part) => parseFloat(part) || 0);
+    return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : date - Date.now();
+};
+
+/**
+ * How long the upstream asked us to wait, in milliseconds.
+ * `retry-after-ms` and `Retry-After` win; otherwise the reset time of every
+ * exhausted rate limit (`x-ratelimit-reset-*`, `anthropic-ratelimit-*-reset`)
+ * is considered and the latest one is used.
+ */
+export const getRetryAfterMs = (headers: Headers): number | undefined => {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !Number.isNaN(parseFloat(retryAfterMs))) {
+    return Math.max(0, parseFloat(retryAfterMs));
+  }
+  const retryAfter = parseResetValue(headers.get("retry-after"));
+  if (retryAfter !== undefined) {
+    return Math.max(0, retryAfter);
+  }
+
+  const resets: number[] = [];
+  headers.forEach((value, name) => {
+    const match =
+      name.match(/^x-ratelimit-reset(?:-(.+))?$/) ||
+      name.match(/^anthropic-ratelimit-(.+)-reset$/);
+    if (!match) return;
+    // Skip limits that still have room left
+    const kind = match[1];
+    const remaining = kind
+      ? headers.get(`x-ratelimit-remaining-${kind}`) ??
+        headers.get(`anthropic-ratelimit-${kind}-remaining`)
+      : headers.get("x-ratelimit-remaining");
+    if (remaining !== null && parseFloat(remaining) > 0) return;
+    const reset = parseResetValue(value);
+    if (reset !== undefined) resets.push(reset);
+  });
+  return resets.length ? Math.max(0, ...resets) : undefined;
+};
+
+/**
+ * Delay before the next attempt, or undefined when the request should not be
+ * retried again. `attempt` is the number of the attempt that just failed.
+ */
+export const getRetryDelay = (
+  attempt: number,
+  options: Required<RetryOptions>,
+  headers?: Headers
+): number | undefined => {
+  if (attempt >= options.maxAttempts) return undefined;
+
+  const retryAfter = headers ? getRetryAfterMs(headers) : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter > options.maxDelayMs ? undefined : retryAfter;
+  }
+
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+  const spread = backoff * options.jitter;
+  return Math.min(
+    options.maxDelayMs,
+    Math.max(0, Math.round(backoff - spread + Math.random() * spread * 2))
+  );
+};
+
+/**
+ * Wait `ms`, or reject with the abort reason as soon as `signal` aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error("Aborted"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
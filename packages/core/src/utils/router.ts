@@ -7,6 +7,27 @@ import { CLAUDE_PROJECTS_DIR, HOME_DIR } from "@CCR/shared";
 import { LRUCache } from "lru-cache";
 import { ConfigService } from "../services/config";
 import { TokenizerService } from "../services/tokenizer";
+import { RouterTargetSpec, getTargetModels, loadBalancer } from "./loadBalancer";
+import { circuitBreakers, getCircuitBreakerOptions } from "./circuitBreaker";
+import { runCustomRouter } from "./customRouter";
+import { getStickySessionOptions, stickySessions } from "./stickySessions";
+import {
+  BudgetConfig,
+  budgetTracker,
+  getDowngradeModel,
+  isBudgetEnabled,
+  isCheaper,
+} from "./budget";
+import { getTargetModelInfo, hasImageContent } from "./modelRegistry";
+import { FallbackEntry, getFallbackModels } from "./fallback";
+import { createApiError } from "../api/middleware";
+import {
+  RouterRule,
+  builtinRouterRules,
+  compileRouterRules,
+  evaluateRouterRules,
+  takeSubagentModel,
+} from "./routerRules";
 
 // Types from @anthropic-ai/sdk
 interface Tool {
@@ -107,12 +128,14 @@ const getProjectSpecificRouter = async (
       try {
         const sessionConfig = JSON.parse(await readFile(sessionConfigPath, "utf8"));
         if (sessionConfig && sessionConfig.Router) {
+          req.routerOverride = { scope: "session", path: sessionConfigPath };
           return sessionConfig.Router;
         }
       } catch {}
       try {
         const projectConfig = JSON.parse(await readFile(projectConfigPath, "utf8"));
         if (projectConfig && projectConfig.Router) {
+          req.routerOverride = { scope: "project", path: projectConfigPath };
           return projectConfig.Router;
         }
       } catch {}
@@ -121,17 +144,44 @@ const getProjectSpecificRouter = async (
   return undefined; // Return undefined to use original configuration
 };
 
-const getUseModel = async (
+// Compiled `Router.rules`, keyed by the Router object they were built from
+const compiledRulesCache = new WeakMap<object, RouterRule[]>();
+
+const getRouterRules = (Router: any, logger?: any): RouterRule[] => {
+  if (!Router || !Array.isArray(Router.rules) || Router.rules.length === 0) {
+    return builtinRouterRules;
+  }
+  let rules = compiledRulesCache.get(Router);
+  if (!rules) {
+    rules = [...compileRouterRules(Router.rules, logger), ...builtinRouterRules];
+    compiledRulesCache.set(Router, rules);
+  }
+  return rules;
+};
+
+// Outcome of the routing rules, before a load balancer picks one target of
+// the matched slot. `selected` is set for an explicit "provider,model".
+interface RuleDecision {
+  target?: RouterTargetSpec;
+  selected?: string;
+  scenarioType: RouterScenarioType;
+  rule: string;
+  loadBalance?: any;
+}
+
+const evaluateRules = async (
   req: any,
   tokenCount: number,
   configService: ConfigService,
   lastUsage?: Usage | undefined
-): Promise<{ model: string; scenarioType: RouterScenarioType }> => {
+): Promise<RuleDecision> => {
   const projectSpecificRouter = await getProjectSpecificRouter(req, configService);
   const providers = configService.get<any[]>("providers") || [];
   const Router = projectSpecificRouter || configService.get("Router");
 
   if (req.body.model.includes(",")) {
+    // An explicit model wins over the tag, which still must not reach the provider
+    takeSubagentModel(req);
     const [provider, model] = req.body.model.split(",");
     const finalProvider = providers.find(
       (p: any) => p.name.toLowerCase() === provider
@@ -139,84 +189,255 @@ const getUseModel = async (
     const finalModel = finalProvider?.models?.find(
       (m: any) => m.toLowerCase() === model
     );
-    if (finalProvider && finalModel) {
-      return { model: `${finalProvider.name},${finalModel}`, scenarioType: 'default' };
-    }
-    return { model: req.body.model, scenarioType: 'default' };
+    const selected =
+      finalProvider && finalModel ? `${finalProvider.name},${finalModel}` : req.body.model;
+    return { selected, scenarioType: 'default', rule: 'explicit' };
   }
 
-  // if tokenCount is greater than the configured threshold, use the long context model
-  const longContextThreshold = Router?.longContextThreshold || 60000;
-  const lastUsageThreshold =
-    lastUsage &&
-    lastUsage.input_tokens > longContextThreshold &&
-    tokenCount > 20000;
-  const tokenCountThreshold = tokenCount > longContextThreshold;
-  if ((lastUsageThreshold || tokenCountThreshold) && Router?.longContext) {
-    req.log.info(
-      `Using long context model due to token count: ${tokenCount}, threshold: ${longContextThreshold}`
-    );
-    return { model: Router.longContext, scenarioType: 'longContext' };
+  let project: Promise<string | null> | undefined;
+  const result = await evaluateRouterRules(getRouterRules(Router, req.log), {
+    req,
+    tokenCount,
+    lastUsage,
+    Router,
+    globalRouter: configService.get("Router"),
+    providers,
+    getProject: () => {
+      if (!project) {
+        project = req.sessionId
+          ? searchProjectBySession(req.sessionId)
+          : Promise.resolve(null);
+      }
+      return project;
+    },
+  });
+  return {
+    target: result.target,
+    scenarioType: result.scenarioType,
+    rule: result.rule,
+    loadBalance: Router?.loadBalance,
+  };
+};
+
+// A slot may list several targets, let the load balancer pick one
+const selectTarget = (
+  decision: RuleDecision,
+  configService: ConfigService,
+  dryRun: boolean
+): RouterDecision => {
+  if (decision.selected) {
+    return {
+      model: decision.selected,
+      scenarioType: decision.scenarioType,
+      rule: decision.rule,
+      candidates: [decision.selected],
+    };
   }
-  if (
-    req.body?.system?.length > 1 &&
-    req.body?.system[1]?.text?.startsWith("<CCR-SUBAGENT-MODEL>")
-  ) {
-    const model = req.body?.system[1].text.match(
-      /<CCR-SUBAGENT-MODEL>(.*?)<\/CCR-SUBAGENT-MODEL>/s
-    );
-    if (model) {
-      req.body.system[1].text = req.body.system[1].text.replace(
-        `<CCR-SUBAGENT-MODEL>${model[1]}</CCR-SUBAGENT-MODEL>`,
-        ""
-      );
-      return { model: model[1], scenarioType: 'default' };
-    }
+  const selection = loadBalancer.select(decision.target, {
+    strategy: decision.loadBalance,
+    dryRun,
+    latency: configService.get("latency"),
+  });
+  return {
+    model: selection?.model as string,
+    scenarioType: decision.scenarioType,
+    rule: decision.rule,
+    candidates: selection?.candidates || [],
+  };
+};
+
+/**
+ * Move away from a target whose circuit breaker is open.
+ * Other targets of the same slot are tried first, then the scenario fallback list.
+ */
+const skipOpenCircuits = (
+  req: any,
+  model: string,
+  candidates: string[],
+  configService: ConfigService
+): string => {
+  const options = getCircuitBreakerOptions(configService.get("circuitBreaker"));
+  if (!model || circuitBreakers.isAvailable(model, options)) {
+    return model;
   }
-  // Use the background model for any Claude Haiku variant
-  const globalRouter = configService.get("Router");
-  if (
-    req.body.model?.includes("claude") &&
-    req.body.model?.includes("haiku") &&
-    globalRouter?.background
-  ) {
-    req.log.info(`Using background model for ${req.body.model}`);
-    return { model: globalRouter.background, scenarioType: 'background' };
+  const fallbackList = getFallbackModels(
+    configService.get("fallback"),
+    req.scenarioType || "default"
+  );
+  const next = [...candidates, ...fallbackList].find(
+    (candidate) => candidate !== model && circuitBreakers.isAvailable(candidate, options)
+  );
+  if (next) {
+    req.log.warn(`Circuit open for ${model}, routing to ${next}`);
+    req.circuitSkipped = model;
+    return next;
   }
-  // The priority of websearch must be higher than thinking.
-  if (
-    Array.isArray(req.body.tools) &&
-    req.body.tools.some((tool: any) => tool.type?.startsWith("web_search")) &&
-    Router?.webSearch
-  ) {
-    return { model: Router.webSearch, scenarioType: 'webSearch' };
+  req.log.warn(`Circuit open for ${model} and no other candidate is available`);
+  return model;
+};
+
+/**
+ * Keep a session on the target it last used successfully, as long as the
+ * current decision could have picked it: another target of the matched slot
+ * or of the scenario fallback list. Explicit and custom router choices win.
+ */
+const applyStickySession = (
+  req: any,
+  model: string,
+  configService: ConfigService
+): string => {
+  const options = getStickySessionOptions(configService.get("stickySessions"));
+  if (!options.enabled || !req.sessionId || !model) return model;
+  if (req.routerRule === "explicit" || req.routerRule === "custom") return model;
+  const scenarioType = req.scenarioType || "default";
+  const pinned = stickySessions.get(req.sessionId, scenarioType);
+  if (!pinned) return model;
+  const fallbackList = getFallbackModels(configService.get("fallback"), scenarioType);
+  if (pinned !== model && ![...(req.routeCandidates || []), ...fallbackList].includes(pinned)) {
+    return model;
   }
-  // if exits thinking, use the think model
-  if (req.body.thinking && Router?.think) {
-    req.log.info(`Using think model for ${req.body.thinking}`);
-    return { model: Router.think, scenarioType: 'think' };
+  req.stickyTarget = pinned;
+  if (pinned !== model) {
+    req.log.info(`Session ${req.sessionId} is pinned to ${pinned}, not moving to ${model}`);
+  }
+  return pinned;
+};
+
+/**
+ * Refuse to send images to a target the model registry knows to be text-only.
+ * Other targets of the slot, the scenario fallback list and `Router.image`
+ * are tried in that order.
+ */
+const ensureVisionSupport = (
+  req: any,
+  configService: ConfigService,
+  dryRun: boolean
+) => {
+  const model = req.body.model;
+  if (!model || !hasImageContent(req.body.messages)) return;
+  const providers = configService.get<any[]>("providers");
+  const acceptsImages = (target: string) =>
+    getTargetModelInfo(target, providers)?.vision !== false;
+  if (acceptsImages(model)) return;
+
+  const fallbackList = getFallbackModels(
+    configService.get("fallback"),
+    req.scenarioType || "default"
+  );
+  const next = [
+    ...(req.routeCandidates || []),
+    ...fallbackList,
+    ...getTargetModels(configService.get("Router")?.image),
+  ].find((candidate) => candidate !== model && acceptsImages(candidate));
+  if (next) {
+    req.log.warn(`${model} does not accept images, routing to ${next}`);
+    req.visionSkipped = model;
+    req.body.model = next;
+    return;
+  }
+
+  const message = `${model} does not accept image input and no vision-capable target is configured`;
+  req.log.warn(message);
+  if (dryRun) {
+    req.routerError = message;
+    return;
+  }
+  throw createApiError(message, 400, "unsupported_content", "invalid_request_error");
+};
+
+/**
+ * Apply the `budget` caps to the routed target: close to a cap the request
+ * moves to the cheaper downgrade model, once a cap is spent it is rejected.
+ */
+const applyBudget = async (
+  req: any,
+  configService: ConfigService,
+  dryRun: boolean
+) => {
+  const config = configService.get<BudgetConfig>("budget");
+  if (!isBudgetEnabled(config) || !req.body.model) return;
+  req.project = req.sessionId ? await searchProjectBySession(req.sessionId) : null;
+  const check = budgetTracker.check(config!, {
+    sessionId: req.sessionId,
+    project: req.project,
+  });
+  req.budget = check;
+  const { scope } = check;
+  if (check.action === "reject" && scope) {
+    req.log.warn(
+      `${scope.scope} budget exhausted for ${scope.key}: $${scope.spent.toFixed(4)} of $${scope.limit}`
+    );
+    if (dryRun) return;
+    throw createApiError(
+      `The ${scope.scope} budget of $${scope.limit} has been reached ($${scope.spent.toFixed(2)} spent)`,
+      402,
+      "budget_exceeded",
+      "billing_error"
+    );
+  }
+  if (check.action === "downgrade" && scope) {
+    const getPrice = (target: string) =>
+      getTargetModelInfo(
+        target,
+        configService.get<any[]>("providers"),
+        configService.get("pricing")
+      )?.pricing;
+    const downgrade = getDowngradeModel(config!, req.scenarioType || "default");
+    if (
+      downgrade &&
+      downgrade !== req.body.model &&
+      isCheaper(getPrice(downgrade), getPrice(req.body.model))
+    ) {
+      // Open circuits were skipped before this point, so check the
+      // downgrade target again and keep the routed model if it is down
+      if (
+        !circuitBreakers.isAvailable(
+          downgrade,
+          getCircuitBreakerOptions(configService.get("circuitBreaker"))
+        )
+      ) {
+        req.log.warn(`Circuit open for budget downgrade ${downgrade}, keeping ${req.body.model}`);
+        return;
+      }
+      req.log.warn(
+        `${scope.scope} budget at $${scope.spent.toFixed(4)} of $${scope.limit}, downgrading ${req.body.model} to ${downgrade}`
+      );
+      req.budget = { ...check, downgradedFrom: req.body.model };
+      req.body.model = downgrade;
+    }
   }
-  return { model: Router?.default, scenarioType: 'default' };
 };
 
 export interface RouterContext {
   configService: ConfigService;
   tokenizerService?: TokenizerService;
   event?: any;
+  // Compute the decision without advancing load balancer state
+  dryRun?: boolean;
+  // Run the custom router in a dry run too, with whatever side effects it has
+  runCustomRouter?: boolean;
 }
 
 export type RouterScenarioType = 'default' | 'background' | 'think' | 'longContext' | 'webSearch';
 
+export interface RouterDecision {
+  model: string;
+  scenarioType: RouterScenarioType;
+  rule: string;
+  // Every target of the matched slot, the selected one first
+  candidates: string[];
+}
+
 export interface RouterFallbackConfig {
-  default?: string[];
-  background?: string[];
-  think?: string[];
-  longContext?: string[];
-  webSearch?: string[];
+  default?: FallbackEntry;
+  background?: FallbackEntry;
+  think?: FallbackEntry;
+  longContext?: FallbackEntry;
+  webSearch?: FallbackEntry;
 }
 
-export const router = async (req: any, _res: any, context: RouterContext) => {
-  const { configService, event } = context;
+export const router = async (req: any, res: any, context: RouterContext) => {
+  const { configService, event, dryRun = false } = context;
   // Parse sessionId from metadata.user_id
   if (req.body.metadata?.user_id) {
     const parts = req.body.metadata.user_id.split("_session_");
@@ -257,6 +478,7 @@ export const router = async (req: any, _res: any, context: RouterContext) => {
         tokenizerConfig
       );
       tokenCount = result.tokenCount;
+      req.tokenizerUsed = result.tokenizerUsed;
     } else {
       // Legacy fallback
       tokenCount = calculateTokenCount(
@@ -264,36 +486,114 @@ export const router = async (req: any, _res: any, context: RouterContext) => {
         system,
         tools as Tool[]
       );
+      req.tokenizerUsed = "tiktoken-cl100k_base";
     }
 
-    let model;
+    req.tokenCount = tokenCount;
+    let model: string | undefined;
+    let ruleDecision: RuleDecision | undefined;
+
     const customRouterPath = configService.get("CUSTOM_ROUTER_PATH");
-    if (customRouterPath) {
-      try {
-        const customRouter = require(customRouterPath);
-        req.tokenCount = tokenCount; // Pass token count to custom router
-        model = await customRouter(req, configService.getAll(), {
+    if (customRouterPath && dryRun && !context.runCustomRouter) {
+      req.customRouter = {
+        path: customRouterPath,
+        status: "skipped",
+        durationMs: 0,
+        reloaded: false,
+      };
+    } else if (customRouterPath) {
+      // The built-in rules are evaluated once, on a copy of the request so
+      // that it reaches the custom router untouched. Their pick is shown to
+      // the router without advancing load balancers, and used when the
+      // router returns nothing.
+      const ruleRequest = Object.assign(Object.create(req), {
+        body: structuredClone(req.body),
+      });
+      ruleDecision = await evaluateRules(
+        ruleRequest,
+        tokenCount,
+        configService,
+        lastMessageUsage
+      );
+      if (ruleRequest.routerOverride) {
+        req.routerOverride = ruleRequest.routerOverride;
+      }
+      const preview = selectTarget(ruleDecision, configService, true);
+      const customRouterResult = await runCustomRouter(
+        customRouterPath,
+        req,
+        configService.getAll(),
+        {
           event,
-        });
-      } catch (e: any) {
-        req.log.error(`failed to load custom router: ${e.message}`);
+          tokenCount,
+          scenario: {
+            type: preview.scenarioType,
+            rule: preview.rule,
+            model: preview.model,
+            candidates: preview.candidates,
+          },
+          providers: (configService.get<any[]>("providers") || []).map(
+            (provider: any) => ({ name: provider.name, models: provider.models || [] })
+          ),
+          lastUsage: lastMessageUsage,
+          sessionId: req.sessionId,
+          project: req.sessionId ? await searchProjectBySession(req.sessionId) : null,
+        },
+        configService.get("CUSTOM_ROUTER_TIMEOUT")
+      );
+      req.customRouter = customRouterResult;
+      if (customRouterResult.reloaded) {
+        req.log.info(`Reloaded custom router from ${customRouterPath}`);
+      }
+      if (customRouterResult.model) {
+        model = customRouterResult.model;
+        // The custom router has seen the subagent tag; the provider must not
+        takeSubagentModel(req);
+        // The custom router does not name a scenario
+        req.scenarioType = 'default';
+        req.routerRule = 'custom';
+        req.routeCandidates = [model];
+      } else if (customRouterResult.error) {
+        req.log.error(
+          `custom router ${customRouterResult.status}, using built-in rules: ${customRouterResult.error}`
+        );
       }
     }
     if (!model) {
-      const result = await getUseModel(req, tokenCount, configService, lastMessageUsage);
+      if (ruleDecision) {
+        // The rules ran on a copy; the tag must not reach the provider
+        takeSubagentModel(req);
+      } else {
+        ruleDecision = await evaluateRules(req, tokenCount, configService, lastMessageUsage);
+      }
+      const result = selectTarget(ruleDecision, configService, dryRun);
       model = result.model;
       req.scenarioType = result.scenarioType;
-    } else {
-      // Custom router doesn't provide scenario type, default to 'default'
-      req.scenarioType = 'default';
+      req.routerRule = result.rule;
+      req.routeCandidates = result.candidates;
     }
-    req.body.model = model;
+    model = applyStickySession(req, model, configService);
+    req.log.info(`Router rule '${req.routerRule}' matched, using ${model}`);
+    req.body.model = skipOpenCircuits(req, model, req.routeCandidates || [], configService);
   } catch (error: any) {
     req.log.error(`Error in router middleware: ${error.message}`);
+    req.routerError = error.message;
     const Router = configService.get("Router");
-    req.body.model = Router?.default;
+    req.body.model = loadBalancer.select(Router?.default, {
+      strategy: Router?.loadBalance,
+      dryRun,
+      latency: configService.get("latency"),
+    })?.model;
     req.scenarioType = 'default';
   }
+  ensureVisionSupport(req, configService, dryRun);
+  await applyBudget(req, configService, dryRun);
+  const target = req.body.model;
+  if (target && !dryRun && res?.raw) {
+    // Counted as outstanding until the response is finished or aborted
+    loadBalancer.acquire(target);
+    res.raw.once("close", () => loadBalancer.release(target));
+  }
   return;
 };
 
@@ -0,0 +1,362 @@
+import type { Usage } from "./cache";
+import type { RouterScenarioType } from "./router";
+import { RouterTargetSpec, filterTargets, getTargetModels } from "./loadBalancer";
+import { getTargetModelInfo } from "./modelRegistry";
+
+/**
+ * Match conditions of a declarative routing rule.
+ * Every condition that is set must hold for the rule to match.
+ * String patterns are regular expressions, either bare (`^claude`) or
+ * in literal form with flags (`/refactor/i`).
+ */
+export interface RouterRuleMatch {
+  tokens?: { min?: number; max?: number };
+  hasTools?: boolean;
+  tool?: string;
+  thinking?: boolean;
+  headers?: Record<string, string>;
+  project?: string;
+  model?: string;
+  lastUserMessage?: string;
+}
+
+/**
+ * Rule entry as written in `Router.rules`
+ */
+export interface RouterRuleConfig {
+  name?: string;
+  enabled?: boolean;
+  match?: RouterRuleMatch;
+  model: RouterTargetSpec;
+  scenario?: RouterScenarioType;
+}
+
+export interface RouterRuleContext {
+  req: any;
+  tokenCount: number;
+  lastUsage?: Usage;
+  Router: any;
+  globalRouter: any;
+  providers: any[];
+  getProject: () => Promise<string | null>;
+  // Model named by the <CCR-SUBAGENT-MODEL> tag, already removed from the prompt
+  subagentModel?: string;
+}
+
+export interface RouterRule {
+  name: string;
+  scenarioType: RouterScenarioType;
+  builtin: boolean;
+  resolve: (ctx: RouterRuleContext) => Promise<RouterTargetSpec | undefined>;
+}
+
+export interface RouterRuleResult {
+  // Unset when no rule matches and Router.default is not configured
+  target?: RouterTargetSpec;
+  scenarioType: RouterScenarioType;
+  rule: string;
+}
+
+const toRegExp = (pattern: string): RegExp => {
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  if (literal) {
+    // g and y make test() resume from lastIndex, so a rule would match
+    // every other request
+    return new RegExp(literal[1], literal[2].replace(/[gy]/g, ""));
+  }
+  return new RegExp(pattern);
+};
+
+const getHeader = (headers: any, name: string): string | undefined => {
+  if (!headers) return undefined;
+  const value = headers[name.toLowerCase()] ?? headers[name];
+  return Array.isArray(value) ? value.join(", ") : value;
+};
+
+export const getLastUserMessageText = (messages: any[] | undefined): string => {
+  if (!Array.isArray(messages)) return "";
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message?.role !== "user") continue;
+    if (typeof message.content === "string") {
+      return message.content;
+    }
+    if (Array.isArray(message.content)) {
+      const text = message.content
+        .filter((part: any) => part?.type === "text")
+        .map((part: any) => part.text)
+        .join("\n");
+      // Skip turns that only carry tool results
+      if (text) return text;
+    }
+  }
+  return "";
+};
+
+/**
+ * Compile the declarative match conditions into a predicate.
+ * Regular expressions are built once when the rule is compiled.
+ */
+const compileMatch = (match: RouterRuleMatch = {}) => {
+  const toolPattern = match.tool ? toRegExp(match.tool) : undefined;
+  const projectPattern = match.project ? toRegExp(match.project) : undefined;
+  const modelPattern = match.model ? toRegExp(match.model) : undefined;
+  const messagePattern = match.lastUserMessage
+    ? toRegExp(match.lastUserMessage)
+    : undefined;
+  const headerPatterns = Object.entries(match.headers || {}).map(
+    ([name, pattern]) => [name, toRegExp(pattern)] as const
+  );
+
+  return async (ctx: RouterRuleContext): Promise<boolean> => {
+    const body = ctx.req.body || {};
+    if (match.tokens) {
+      if (match.tokens.min !== undefined && ctx.tokenCount < match.tokens.min) {
+        return false;
+      }
+      if (match.tokens.max !== undefined && ctx.tokenCount > match.tokens.max) {
+        return false;
+      }
+    }
+    const tools: any[] = Array.isArray(body.tools) ? body.tools : [];
+    if (match.hasTools !== undefined && match.hasTools !== tools.length > 0) {
+      return false;
+    }
+    if (
+      toolPattern &&
+      !tools.some(
+        (tool) =>
+          (tool.name && toolPattern.test(tool.name)) ||
+          (tool.type && toolPattern.test(tool.type))
+      )
+    ) {
+      return false;
+    }
+    if (match.thinking !== undefined && match.thinking !== !!body.thinking) {
+      return false;
+    }
+    for (const [name, pattern] of headerPatterns) {
+      const value = getHeader(ctx.req.headers, name);
+      if (value === undefined || !pattern.test(value)) {
+        return false;
+      }
+    }
+    if (modelPattern && !modelPattern.test(body.model || "")) {
+      return false;
+    }
+    if (
+      messagePattern &&
+      !messagePattern.test(getLastUserMessageText(body.messages))
+    ) {
+      return false;
+    }
+    if (projectPattern) {
+      const project = await ctx.getProject();
+      if (!project || !projectPattern.test(project)) {
+        return false;
+      }
+    }
+    return true;
+  };
+};
+
+/**
+ * Build rules from the `Router.rules` config array.
+ * Invalid entries are skipped with a warning so one typo does not break routing.
+ */
+export const compileRouterRules = (
+  rules: RouterRuleConfig[] | undefined,
+  logger?: any
+): RouterRule[] => {
+  if (!Array.isArray(rules)) return [];
+  const compiled: RouterRule[] = [];
+  rules.forEach((rule, index) => {
+    if (!rule || rule.enabled === false) return;
+    const name = rule.name || `rule-${index}`;
+    if (!rule.model) {
+      logger?.warn(`Router rule '${name}' has no target model, skipping`);
+      return;
+    }
+    try {
+      const matches = compileMatch(rule.match);
+      compiled.push({
+        name,
+        scenarioType: rule.scenario || "default",
+        builtin: false,
+        resolve: async (ctx) => ((await matches(ctx)) ? rule.model : undefined),
+      });
+    } catch (e: any) {
+      logger?.warn(`Router rule '${name}' is invalid: ${e.message}`);
+    }
+  });
+  return compiled;
+};
+
+const DEFAULT_LONG_CONTEXT_THRESHOLD = 60000;
+// Share of the context window that may be filled before moving to the long context model
+const LONG_CONTEXT_RATIO = 0.8;
+
+const isAutoThreshold = (Router: any): boolean => Router?.longContextThreshold === "auto";
+
+/**
+ * Long context threshold for a target. `Router.longContextThreshold` applies to
+ * every target; "auto" derives it from the target's context window in the model
+ * registry. Without either, or for unknown models, it is 60000 tokens.
+ */
+export const getLongContextThreshold = (
+  Router: any,
+  providers: any[],
+  target?: string
+): number => {
+  const configured = Router?.longContextThreshold;
+  if (configured && configured !== "auto") {
+    return configured;
+  }
+  if (configured === "auto" && target) {
+    const contextWindow = getTargetModelInfo(target, providers)?.contextWindow;
+    if (contextWindow) {
+      return Math.floor(contextWindow * LONG_CONTEXT_RATIO);
+    }
+  }
+  return DEFAULT_LONG_CONTEXT_THRESHOLD;
+};
+
+const exceedsThreshold = (
+  threshold: number,
+  tokenCount: number,
+  lastUsage?: Usage
+): boolean =>
+  tokenCount > threshold ||
+  (!!lastUsage && lastUsage.input_tokens > threshold && tokenCount > 20000);
+
+/**
+ * With an "auto" threshold, keep the default targets the request still fits in
+ */
+const fitDefaultTargets = (ctx: RouterRuleContext): RouterTargetSpec | undefined => {
+  const { Router, providers, tokenCount, lastUsage } = ctx;
+  if (!isAutoThreshold(Router)) {
+    return Router?.default;
+  }
+  return filterTargets(
+    Router?.default,
+    (target) =>
+      !exceedsThreshold(getLongContextThreshold(Router, providers, target), tokenCount, lastUsage)
+  );
+};
+
+/**
+ * The scenarios that used to be hard-coded in getUseModel, in their original order.
+ * A scenario without a configured model never matches.
+ */
+export const builtinRouterRules: RouterRule[] = [
+  {
+    name: "longContext",
+    scenarioType: "longContext",
+    builtin: true,
+    resolve: async ({ req, tokenCount, lastUsage, Router, providers }) => {
+      if (!Router?.longContext) return undefined;
+      // With "auto", move only when the request fits none of the default targets
+      const targets = isAutoThreshold(Router) ? getTargetModels(Router.default) : [];
+      const thresholds = targets.length
+        ? targets.map((target) => getLongContextThreshold(Router, providers, target))
+        : [getLongContextThreshold(Router, providers)];
+      if (thresholds.every((threshold) => exceedsThreshold(threshold, tokenCount, lastUsage))) {
+        req.log.info(
+          `Using long context model due to token count: ${tokenCount}, threshold: ${Math.max(...thresholds)}`
+        );
+        return Router.longContext;
+      }
+    },
+  },
+  {
+    name: "subagent",
+    scenarioType: "default",
+    builtin: true,
+    resolve: async ({ subagentModel }) => subagentModel,
+  },
+  {
+    // Use the background model for any Claude Haiku variant
+    name: "background",
+    scenarioType: "background",
+    builtin: true,
+    resolve: async ({ req, globalRouter }) => {
+      if (
+        req.body.model?.includes("claude") &&
+        req.body.model?.includes("haiku") &&
+        globalRouter?.background
+      ) {
+        req.log.info(`Using background model for ${req.body.model}`);
+        return globalRouter.background;
+      }
+    },
+  },
+  {
+    // The priority of websearch must be higher than thinking.
+    name: "webSearch",
+    scenarioType: "webSearch",
+    builtin: true,
+    resolve: async ({ req, Router }) => {
+      if (
+        Array.isArray(req.body.tools) &&
+        req.body.tools.some((tool: any) => tool.type?.startsWith("web_search")) &&
+        Router?.webSearch
+      ) {
+        return Router.webSearch;
+      }
+    },
+  },
+  {
+    name: "think",
+    scenarioType: "think",
+    builtin: true,
+    resolve: async ({ req, Router }) => {
+      if (req.body.thinking && Router?.think) {
+        req.log.info(`Using think model for ${req.body.thinking}`);
+        return Router.think;
+      }
+    },
+  },
+];
+
+/**
+ * Remove the <CCR-SUBAGENT-MODEL> tag from the system prompt and return the
+ * model it names. The tag is meant for the router, never for the provider.
+ */
+export const takeSubagentModel = (req: any): string | undefined => {
+  const system = req.body?.system;
+  if (!(system?.length > 1) || !system[1]?.text?.startsWith("<CCR-SUBAGENT-MODEL>")) {
+    return undefined;
+  }
+  const model = system[1].text.match(
+    /<CCR-SUBAGENT-MODEL>(.*?)<\/CCR-SUBAGENT-MODEL>/s
+  );
+  if (!model) return undefined;
+  system[1].text = system[1].text.replace(
+    `<CCR-SUBAGENT-MODEL>${model[1]}</CCR-SUBAGENT-MODEL>`,
+    ""
+  );
+  return model[1];
+};
+
+/**
+ * Run rules in order and return the first one that yields a model.
+ * Falls back to `Router.default` when nothing matches. The subagent tag is
+ * stripped whichever rule matches.
+ */
+export const evaluateRouterRules = async (
+  rules: RouterRule[],
+  ctx: RouterRuleContext
+): Promise<RouterRuleResult> => {
+  ctx.subagentModel = takeSubagentModel(ctx.req);
+  for (const rule of rules) {
+    const target = await rule.resolve(ctx);
+    if (target) {
+      return { target, scenarioType: rule.scenarioType, rule: rule.name };
+    }
+  }
+  return {
+    target: fitDefaultTargets(ctx),
+    scenarioType: "default",
+    rule: "default",
+  };
+};
@@ -0,0 +1,271 @@
+import { createReadStream } from "fs";
+import { appendFile, mkdir, rename, rm, stat } from "fs/promises";
+import { dirname } from "path";
+import { createInterface } from "readline";
+import { SHADOW_FILE } from "@CCR/shared";
+import type { TokenUsage } from "./pricing";
+import type { ResponseSummary } from "./usage";
+
+export interface ShadowOptions {
+  enabled?: boolean;
+  // Candidate "provider,model" that receives the mirrored requests
+  target?: string;
+  // Fraction of requests that are mirrored, between 0 and 1
+  sampleRate?: number;
+  // Only mirror these scenarios; all of them when not set
+  scenarios?: string[];
+  // Response text beyond this many characters is not stored
+  maxTextLength?: number;
+  // Size in bytes at which the log is rotated, keeping one previous file
+  maxFileSize?: number;
+}
+
+/**
+ * One side of a mirrored request
+ */
+export interface ShadowResult {
+  target: string;
+  latencyMs?: number;
+  ttftMs?: number;
+  usage?: TokenUsage;
+  stopReason?: string;
+  toolCalls: string[];
+  text?: string;
+  error?: string;
+}
+
+export interface ShadowRecord {
+  time: string;
+  sessionId?: string;
+  scenarioType: string;
+  stream: boolean;
+  primary: ShadowResult;
+  shadow: ShadowResult;
+}
+
+export interface ShadowSideSummary {
+  errors: number;
+  latencyP50?: number;
+  ttftP50?: number;
+  avgOutputTokens?: number;
+}
+
+export interface ShadowSummary {
+  primary: string;
+  shadow: string;
+  requests: number;
+  // Pairs where both sides succeeded
+  compared: number;
+  primaryStats: ShadowSideSummary;
+  shadowStats: ShadowSideSummary;
+  // Fractions of the compared pairs
+  stopReasonMatch?: number;
+  toolCallMatch?: number;
+  // Mean word overlap (Jaccard) of the response texts
+  textSimilarity?: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ShadowOptions, "target" | "scenarios">> = {
+  enabled: true,
+  sampleRate: 0.1,
+  maxTextLength: 10000,
+  maxFileSize: 10 * 1024 * 1024,
+};
+
+/**
+ * Resolve options from the `shadow` config entry.
+ * Mirroring is disabled unless the entry is present and names a target.
+ */
+export const getShadowOptions = (config: ShadowOptions | undefined) => {
+  if (!config?.target) {
+    return { ...DEFAULT_OPTIONS, ...config, enabled: false };
+  }
+  return { ...DEFAULT_OPTIONS, ...config };
+};
+
+/**
+ * Whether to mirror a request that was routed to `target`
+ */
+export const shouldShadow = (
+  options: ReturnType<typeof getShadowOptions>,
+  scenarioType: string,
+  target: string
+): boolean => {
+  if (!options.enabled || !options.target || options.target === target) {
+    return false;
+  }
+  if (options.scenarios?.length && !options.scenarios.includes(scenarioType)) {
+    return false;
+  }
+  return Math.random() < options.sampleRate;
+};
+
+export const toShadowResult = (
+  target: string,
+  startedAt: number,
+  summary: ResponseSummary,
+  maxTextLength: number
+): ShadowResult => ({
+  target,
+  latencyMs: Date.now() - startedAt,
+  ttftMs: summary.firstChunkAt ? summary.firstChunkAt - startedAt : undefined,
+  usage: summary.usage,
+  stopReason: summary.stopReason,
+  toolCalls: summary.toolCalls,
+  text: summary.text.slice(0, maxTextLength),
+});
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const mean = (values: number[]): number | undefined =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+const textSimilarity = (a = "", b = ""): number => {
+  const words = (text: string) =>
+    new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  left.forEach((word) => {
+    if (right.has(word)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+const summarizeSide = (results: ShadowResult[]): ShadowSideSummary => {
+  const succeeded = results.filter((result) => !result.error);
+  return {
+    errors: results.length - succeeded.length,
+    latencyP50: median(
+      succeeded.map((result) => result.latencyMs).filter((v): v is number => v !== undefined)
+    ),
+    ttftP50: median(
+      succeeded.map((result) => result.ttftMs).filter((v): v is number => v !== undefined)
+    ),
+    avgOutputTokens: mean(
+      succeeded
+        .map((result) => result.usage?.output_tokens)
+        .filter((v): v is number => v !== undefined)
+    ),
+  };
+};
+
+/**
+ * JSONL log of mirrored request pairs. Once the file reaches the size limit
+ * it is moved to `<file>.1`, so at most two files' worth of records are kept.
+ */
+export class ShadowStore {
+  // Appends run one at a time so a rotation never races another write
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private file: string = SHADOW_FILE) {}
+
+  private get rotatedFile(): string {
+    return `${this.file}.1`;
+  }
+
+  append(
+    record: ShadowRecord,
+    maxFileSize: number = DEFAULT_OPTIONS.maxFileSize
+  ): Promise<void> {
+    const write = this.writing.then(async () => {
+      await mkdir(dirname(this.file), { recursive: true });
+      const size = await stat(this.file).then(
+        (stats) => stats.size,
+        () => 0
+      );
+      if (maxFileSize > 0 && size >= maxFileSize) {
+        await rename(this.file, this.rotatedFile);
+      }
+      await appendFile(this.file, JSON.stringify(record) + "\n");
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private async readFile(file: string, records: ShadowRecord[], limit?: number) {
+    try {
+      const input = createReadStream(file, { encoding: "utf8" });
+      for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {}
+        if (limit && records.length > limit) {
+          records.shift();
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  /**
+   * Most recent records, newest last
+   */
+  async read(limit?: number): Promise<ShadowRecord[]> {
+    const records: ShadowRecord[] = [];
+    await this.readFile(this.rotatedFile, records, limit);
+    await this.readFile(this.file, records, limit);
+    return records;
+  }
+
+  /**
+   * Compare the two sides of every primary/shadow target pair
+   */
+  async summarize(): Promise<ShadowSummary[]> {
+    const groups = new Map<string, ShadowRecord[]>();
+    for (const record of await this.read()) {
+      const key = `${record.primary.target}\n${record.shadow.target}`;
+      const group = groups.get(key) || [];
+      group.push(record);
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values()).map((records) => {
+      const compared = records.filter(
+        (record) => !record.primary.error && !record.shadow.error
+      );
+      const fraction = (matches: (record: ShadowRecord) => boolean) =>
+        compared.length
+          ? compared.filter(matches).length / compared.length
+          : undefined;
+      return {
+        primary: records[0].primary.target,
+        shadow: records[0].shadow.target,
+        requests: records.length,
+        compared: compared.length,
+        primaryStats: summarizeSide(records.map((record) => record.primary)),
+        shadowStats: summarizeSide(records.map((record) => record.shadow)),
+        stopReasonMatch: fraction(
+          (record) => record.primary.stopReason === record.shadow.stopReason
+        ),
+        toolCallMatch: fraction(
+          (record) =>
+            [...record.primary.toolCalls].sort().join(",") ===
+            [...record.shadow.toolCalls].sort().join(",")
+        ),
+        textSimilarity: mean(
+          compared.map((record) =>
+            textSimilarity(record.primary.text, record.shadow.text)
+          )
+        ),
+      };
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.writing;
+    await rm(this.rotatedFile, { force: true });
+    await rm(this.file, { force: true });
+  }
+}
+
+export const shadowStore = new ShadowStore();
@@ -0,0 +1,124 @@
+import { createHash, createHmac } from "crypto";
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * Request as it is about to be sent. Signers add their headers to `headers`.
+ */
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: string;
+}
+
+export type RequestSigner = (request: SignableRequest) => Promise<void>;
+
+const sha256 = (data: string): string =>
+  createHash("sha256").update(data, "utf8").digest("hex");
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+  createHmac("sha256", key).update(data, "utf8").digest();
+
+// RFC 3986 encoding, which also escapes !'()*
+const uriEncode = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+/**
+ * Credentials from the AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and
+ * AWS_SESSION_TOKEN environment variables, if set
+ */
+export const getEnvAwsCredentials = (): AwsCredentials | undefined => {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) return undefined;
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: process.env.AWS_SESSION_TOKEN || undefined,
+  };
+};
+
+/**
+ * Sign a request with AWS Signature Version 4. Sets x-amz-date,
+ * x-amz-security-token with temporary credentials, and Authorization.
+ * Host, content-type and x-amz-* headers are signed. Path segments are
+ * encoded again as required for every service but S3.
+ */
+export const signAwsRequest = (
+  request: SignableRequest,
+  options: {
+    credentials: AwsCredentials;
+    region: string;
+    service: string;
+    date?: Date;
+  }
+): void => {
+  const { credentials, region, service } = options;
+  const { url, headers } = request;
+  const amzDate = (options.date || new Date())
+    .toISOString()
+    .replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+
+  headers.delete("authorization");
+  headers.set("x-amz-date", amzDate);
+  if (credentials.sessionToken) {
+    headers.set("x-amz-security-token", credentials.sessionToken);
+  }
+
+  const signed: Array<[string, string]> = [["host", url.host]];
+  headers.forEach((value, name) => {
+    if (name === "content-type" || name.startsWith("x-amz-")) {
+      signed.push([name, value.trim().replace(/\s+/g, " ")]);
+    }
+  });
+  signed.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = signed.map(([name]) => name).join(";");
+
+  const canonicalUri =
+    url.pathname
+      .split("/")
+      .map((segment) => uriEncode(segment))
+      .join("/") || "/";
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    signed.map(([name, value]) => `${name}:${value}\n`).join(""),
+    signedHeaders,
+    sha256(request.body),
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service),
+    "aws4_request"
+  );
+  const signature = createHmac("sha256", signingKey)
+    .update(stringToSign, "utf8")
+    .digest("hex");
+
+  headers.set(
+    "authorization",
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  );
+};
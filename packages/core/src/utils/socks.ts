@@ -0,0 +1,184 @@
+import net from "net";
+import { buildConnector, errors } from "undici";
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// Reply codes of RFC 1928, section 6
+const REPLY_MESSAGES: Record<number, string> = {
+  1: "general failure",
+  2: "connection not allowed by ruleset",
+  3: "network unreachable",
+  4: "host unreachable",
+  5: "connection refused",
+  6: "TTL expired",
+  7: "command not supported",
+  8: "address type not supported",
+};
+
+const encodeAddress = (hostname: string): Buffer => {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (net.isIPv4(host)) {
+    return Buffer.from([0x01, ...host.split(".").map(Number)]);
+  }
+  if (net.isIPv6(host)) {
+    const groups = host.split("::");
+    const head = groups[0] ? groups[0].split(":") : [];
+    const tail = groups.length > 1 && groups[1] ? groups[1].split(":") : [];
+    const words = [...head, ...Array(8 - head.length - tail.length).fill("0"), ...tail];
+    const address = Buffer.alloc(16);
+    words.forEach((word, index) => address.writeUInt16BE(parseInt(word, 16), index * 2));
+    return Buffer.concat([Buffer.from([0x04]), address]);
+  }
+  const name = Buffer.from(host);
+  return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+};
+
+// Length of a CONNECT reply, once its address type is known
+const replyLength = (reply: Buffer): number | undefined => {
+  if (reply.length < 5) return undefined;
+  switch (reply[3]) {
+    case 0x01:
+      return 10;
+    case 0x04:
+      return 22;
+    default:
+      return 7 + reply[4];
+  }
+};
+
+/**
+ * Open a TCP tunnel to `host:port` through a SOCKS5 proxy (RFC 1928), with
+ * username/password authentication (RFC 1929) when the proxy URL has
+ * credentials. Host names are resolved by the proxy.
+ */
+export const openSocksTunnel = (
+  proxy: URL,
+  host: string,
+  port: number,
+  timeoutMs: number = DEFAULT_CONNECT_TIMEOUT_MS
+): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const username = decodeURIComponent(proxy.username);
+    const password = decodeURIComponent(proxy.password);
+    const socket = net.connect(Number(proxy.port) || 1080, proxy.hostname);
+    let step: "greeting" | "auth" | "connect" = "greeting";
+    let buffer = Buffer.alloc(0);
+
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      socket.removeListener("data", onData);
+      socket.removeListener("error", done);
+      socket.removeListener("close", onClose);
+      if (error) {
+        socket.destroy();
+        reject(error);
+      } else {
+        socket.pause();
+        if (buffer.length) socket.unshift(buffer);
+        resolve(socket);
+      }
+    };
+    const fail = (message: string) =>
+      done(new Error(`SOCKS proxy ${proxy.host}: ${message}`));
+    const onClose = () => fail("connection closed during the handshake");
+    const timer = setTimeout(
+      () =>
+        done(
+          new errors.ConnectTimeoutError(
+            `Connect Timeout Error (SOCKS proxy ${proxy.host}, timeout: ${timeoutMs}ms)`
+          )
+        ),
+      timeoutMs
+    );
+
+    const sendConnect = () => {
+      step = "connect";
+      const portBytes = Buffer.alloc(2);
+      portBytes.writeUInt16BE(port);
+      socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), encodeAddress(host), portBytes]));
+    };
+
+    const onData = (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      if (step === "greeting") {
+        if (buffer.length < 2) return;
+        const method = buffer[1];
+        buffer = buffer.subarray(2);
+        if (method === 0x00) {
+          sendConnect();
+        } else if (method === 0x02 && username) {
+          step = "auth";
+          const user = Buffer.from(username);
+          const pass = Buffer.from(password);
+          socket.write(
+            Buffer.concat([
+              Buffer.from([0x01, user.length]),
+              user,
+              Buffer.from([pass.length]),
+              pass,
+            ])
+          );
+        } else {
+          fail("no acceptable authentication method");
+          return;
+        }
+      }
+      if (step === "auth") {
+        if (buffer.length < 2) return;
+        const status = buffer[1];
+        buffer = buffer.subarray(2);
+        if (status !== 0x00) {
+          fail("authentication failed");
+          return;
+        }
+        sendConnect();
+      }
+      if (step === "connect") {
+        const length = replyLength(buffer);
+        if (length === undefined || buffer.length < length) return;
+        const reply = buffer[1];
+        buffer = buffer.subarray(length);
+        if (reply !== 0x00) {
+          fail(`cannot reach ${host}:${port}, ${REPLY_MESSAGES[reply] || `reply ${reply}`}`);
+          return;
+        }
+        done();
+      }
+    };
+
+    socket.on("data", onData);
+    socket.once("error", done);
+    socket.once("close", onClose);
+    socket.once("connect", () => {
+      socket.write(Buffer.from(username ? [0x05, 0x02, 0x00, 0x02] : [0x05, 0x01, 0x00]));
+    });
+  });
+
+/**
+ * undici connector that reaches every origin through a SOCKS5 proxy. TLS to
+ * the origin runs inside the tunnel, with `tls` as the TLS options.
+ */
+export const createSocksConnector = (
+  proxy: URL,
+  tls: buildConnector.BuildOptions = {}
+): buildConnector.connector => {
+  const connectTls = buildConnector(tls);
+  return (options, callback) => {
+    const https = options.protocol === "https:";
+    openSocksTunnel(
+      proxy,
+      options.hostname,
+      Number(options.port) || (https ? 443 : 80),
+      tls.timeout ?? DEFAULT_CONNECT_TIMEOUT_MS
+    ).then(
+      (socket) => {
+        if (!https) {
+          callback(null, socket);
+          return;
+        }
+        connectTls({ ...options, httpSocket: socket }, callback);
+      },
+      (error) => callback(error, null)
+    );
+  };
+};
@@ -1,3 +1,4 @@
 export { SSEParserTransform } from './SSEParser.transform';
 export { SSESerializerTransform } from './SSESerializer.transform';
 export { rewriteStream } from './rewriteStream';
+export { recoverStream } from './recoverStream';
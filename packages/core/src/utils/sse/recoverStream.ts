@@ -0,0 +1,143 @@
+import { SSEParserTransform } from './SSEParser.transform';
+import { SSESerializerTransform } from './SSESerializer.transform';
+
+/**
+ * What the client has received when the upstream stream broke
+ */
+export interface InterruptedStream {
+    // Text of the assistant message so far, to be continued by the next target
+    text: string;
+    error?: Error;
+}
+
+/**
+ * Returns the body of a continuation stream, or undefined to give up
+ */
+export type StreamRecoverer = (interrupted: InterruptedStream) => Promise<ReadableStream | undefined>;
+
+const decodeText = () => {
+    const decoder = new TextDecoder();
+    return new TransformStream<any, string>({
+        transform: (chunk, controller) => {
+            controller.enqueue(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+        }
+    });
+};
+
+/**
+ * Guard an Anthropic-format event stream against upstream failures.
+ *
+ * A stream that errors, sends an `error` event or ends before `message_stop`
+ * is interrupted. The recoverer is then asked for a continuation, whose
+ * events are spliced in: its `message_start` is dropped and its content
+ * blocks are renumbered after the ones already sent. Messages with a tool
+ * call are never spliced since a partial call cannot be continued.
+ * When there is no continuation, the stream is closed with an `error` event
+ * and `message_stop` so the client sees a complete, failed message.
+ */
+export const recoverStream = (stream: ReadableStream, recover: StreamRecoverer): ReadableStream => {
+    let reader: ReadableStreamDefaultReader<any> | undefined;
+    let cancelled = false;
+
+    const events = new ReadableStream({
+        async start(controller) {
+            let source: ReadableStream | undefined = stream;
+            let messageStarted = false;
+            let stopReasonSent = false;
+            let hasToolUse = false;
+            let openBlock: number | undefined;
+            let nextIndex = 0;
+            let indexOffset = 0;
+            let text = '';
+
+            while (source) {
+                let failure: Error | undefined;
+                let stopped = false;
+                reader = source.pipeThrough(decodeText()).pipeThrough(new SSEParserTransform()).getReader();
+                try {
+                    while (true) {
+                        const { done, value: event } = await reader.read();
+                        if (done) break;
+                        const data = event.data;
+                        const type = data?.type || event.event;
+
+                        if (type === 'error') {
+                            failure = new Error(data?.error?.message || 'Upstream stream sent an error event');
+                            break;
+                        }
+                        if (type === 'message_start') {
+                            if (messageStarted) continue;
+                            messageStarted = true;
+                        } else if (type === 'content_block_start' || type === 'content_block_delta' || type === 'content_block_stop') {
+                            data.index = (data.index ?? 0) + indexOffset;
+                            if (type === 'content_block_start') {
+                                openBlock = data.index;
+                                nextIndex = data.index + 1;
+                                if (data.content_block?.type?.endsWith('tool_use')) {
+                                    hasToolUse = true;
+                                }
+                            } else if (type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+                                text += data.delta.text || '';
+                            } else if (type === 'content_block_stop') {
+                                openBlock = undefined;
+                            }
+                        } else if (type === 'message_delta' && data.delta?.stop_reason) {
+                            stopReasonSent = true;
+                        } else if (type === 'message_stop') {
+                            stopped = true;
+                        }
+                        controller.enqueue(event);
+                        if (stopped) break;
+                    }
+                } catch (error: any) {
+                    failure = error;
+                } finally {
+                    reader.cancel().catch(() => {});
+                }
+                if (cancelled) return;
+
+                if (stopped || (!failure && stopReasonSent)) {
+                    // Some upstreams end right after the final message_delta
+                    if (!stopped) {
+                        controller.enqueue({ event: 'message_stop', data: { type: 'message_stop' } });
+                    }
+                    controller.close();
+                    return;
+                }
+
+                source = hasToolUse
+                    ? undefined
+                    : await recover({ text, error: failure }).catch(() => undefined);
+                if (cancelled) {
+                    source?.cancel().catch(() => {});
+                    return;
+                }
+
+                if (openBlock !== undefined) {
+                    controller.enqueue({ event: 'content_block_stop', data: { type: 'content_block_stop', index: openBlock } });
+                    openBlock = undefined;
+                }
+                indexOffset = nextIndex;
+            }
+
+            controller.enqueue({
+                event: 'error',
+                data: {
+                    type: 'error',
+                    error: {
+                        type: 'api_error',
+                        message: 'The upstream stream was interrupted and could not be resumed',
+                    },
+                },
+            });
+            controller.enqueue({ event: 'message_stop', data: { type: 'message_stop' } });
+            controller.close();
+        },
+        cancel(reason) {
+            cancelled = true;
+            return reader?.cancel(reason);
+        }
+    });
+
+    return events.pipeThrough(new SSESerializerTransform()).pipeThrough(new TextEncoderStream());
+};
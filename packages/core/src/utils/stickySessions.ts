@@ -0,0 +1,143 @@
+import { LRUCache } from "lru-cache";
+
+export interface StickySessionOptions {
+  enabled?: boolean;
+  // Pins expire after this long without a successful request
+  ttlMs?: number;
+}
+
+export interface StickySessionPin {
+  sessionId: string;
+  scenarioType: string;
+  model: string;
+  pinnedAt: string;
+  lastUsedAt: string;
+  expiresAt?: string;
+  requests: number;
+}
+
+interface PinEntry {
+  model: string;
+  pinnedAt: number;
+  lastUsedAt: number;
+  requests: number;
+}
+
+const DEFAULT_OPTIONS: Required<StickySessionOptions> = {
+  enabled: true,
+  ttlMs: 60 * 60 * 1000,
+};
+
+const MAX_PINS = 1000;
+
+/**
+ * Resolve options from the `stickySessions` config entry.
+ * Pinning is disabled unless the entry is present.
+ */
+export const getStickySessionOptions = (
+  config: StickySessionOptions | undefined
+): Required<StickySessionOptions> => {
+  if (!config) {
+    return { ...DEFAULT_OPTIONS, enabled: false };
+  }
+  return { ...DEFAULT_OPTIONS, ...config };
+};
+
+/**
+ * Pins each session to the target that last served it, so that
+ * provider-side prompt caches keep being hit.
+ * Pins are kept per scenario: a session's background requests do not
+ * move its default traffic.
+ */
+export class StickySessionStore {
+  private pins = new LRUCache<string, PinEntry>({ max: MAX_PINS });
+
+  get(sessionId: string, scenarioType: string): string | undefined {
+    return this.pins.get(this.key(sessionId, scenarioType))?.model;
+  }
+
+  /**
+   * Record a successful request. Moving to another target restarts the pin.
+   */
+  pin(
+    sessionId: string,
+    scenarioType: string,
+    model: string,
+    options: Required<StickySessionOptions>
+  ): void {
+    const key = this.key(sessionId, scenarioType);
+    const now = Date.now();
+    const entry = this.pins.get(key);
+    if (entry && entry.model === model) {
+      entry.lastUsedAt = now;
+      entry.requests += 1;
+      this.pins.set(key, entry, { ttl: options.ttlMs });
+      return;
+    }
+    this.pins.set(
+      key,
+      { model, pinnedAt: now, lastUsedAt: now, requests: 1 },
+      { ttl: options.ttlMs }
+    );
+  }
+
+  /**
+   * Drop the pin after its target failed, unless it already moved elsewhere
+   */
+  unpin(sessionId: string, scenarioType: string, model?: string): void {
+    const key = this.key(sessionId, scenarioType);
+    if (!model || this.pins.get(key)?.model === model) {
+      this.pins.delete(key);
+    }
+  }
+
+  list(): StickySessionPin[] {
+    return Array.from(this.pins.entries()).map(([key, entry]) => {
+      const [sessionId, scenarioType] = this.splitKey(key);
+      const remaining = this.pins.getRemainingTTL(key);
+      return {
+        sessionId,
+        scenarioType,
+        model: entry.model,
+        pinnedAt: new Date(entry.pinnedAt).toISOString(),
+        lastUsedAt: new Date(entry.lastUsedAt).toISOString(),
+        expiresAt:
+          remaining > 0 && Number.isFinite(remaining)
+            ? new Date(Date.now() + remaining).toISOString()
+            : undefined,
+        requests: entry.requests,
+      };
+    });
+  }
+
+  /**
+   * Remove all pins of a session, or every pin when no session is given.
+   * Returns the number of pins removed.
+   */
+  clear(sessionId?: string): number {
+    if (!sessionId) {
+      const count = this.pins.size;
+      this.pins.clear();
+      return count;
+    }
+    let count = 0;
+    for (const key of Array.from(this.pins.keys())) {
+      if (this.splitKey(key)[0] === sessionId) {
+        this.pins.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private key(sessionId: string, scenarioType: string): string {
+    return `${sessionId}:${scenarioType}`;
+  }
+
+  private splitKey(key: string): [string, string] {
+    const index = key.lastIndexOf(":");
+    return [key.slice(0, index), key.slice(index + 1)];
+  }
+}
+
+export const stickySessions = new StickySessionStore();
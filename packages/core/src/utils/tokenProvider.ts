@@ -0,0 +1,295 @@
+import { createSign } from "crypto";
+import { readFile } from "fs/promises";
+import type { Dispatcher } from "undici";
+import { resolveSecret } from "@CCR/shared";
+import { expandPath } from "./network";
+
+export interface AccessToken {
+  token: string;
+  // Epoch milliseconds; tokens without an expiry are kept until a 401
+  expiresAt?: number;
+}
+
+/**
+ * Source of short-lived bearer tokens for a provider
+ */
+export interface TokenProvider {
+  // Header the token is sent in, "Authorization" by default
+  header?: string;
+  // Prepended to the token, "Bearer " by default
+  prefix?: string;
+  getToken(): Promise<string>;
+  // Drop the cached token, e.g. after the provider rejected it
+  invalidate(): void;
+}
+
+export type TokenAuthConfig =
+  | {
+      type: "oauth2";
+      token_url: string;
+      client_id: string;
+      client_secret: string;
+      scope?: string;
+      audience?: string;
+      header?: string;
+      prefix?: string;
+    }
+  | {
+      type: "jwt";
+      // Service account key file with client_email, private_key and token_uri
+      credentials_file: string;
+      token_url?: string;
+      scope?: string;
+      audience?: string;
+      header?: string;
+      prefix?: string;
+    }
+  | {
+      type: "google";
+      scope?: string;
+      header?: string;
+      prefix?: string;
+    };
+
+/**
+ * Dispatcher for a request to the token endpoint, so it goes through the
+ * proxy and TLS settings of the provider
+ */
+export type TokenDispatcherFactory = (url: string) => Promise<Dispatcher>;
+
+// Tokens are refreshed this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 30 * 1000;
+const JWT_LIFETIME_S = 60 * 60;
+const GOOGLE_CLOUD_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+
+/**
+ * Caches the token returned by `fetchToken` and fetches a new one shortly
+ * before it expires. Concurrent requests share a single fetch.
+ */
+export class RefreshableTokenProvider implements TokenProvider {
+  private current?: AccessToken;
+  private pending?: Promise<AccessToken>;
+
+  constructor(
+    private readonly fetchToken: () => Promise<AccessToken>,
+    public readonly header?: string,
+    public readonly prefix?: string
+  ) {}
+
+  async getToken(): Promise<string> {
+    if (
+      this.current &&
+      (!this.current.expiresAt ||
+        this.current.expiresAt - REFRESH_MARGIN_MS > Date.now())
+    ) {
+      return this.current.token;
+    }
+    if (!this.pending) {
+      this.pending = this.fetchToken()
+        .then((token) => {
+          this.current = token;
+          return token;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return (await this.pending).token;
+  }
+
+  invalidate(): void {
+    this.current = undefined;
+  }
+
+  // Providers are returned by the API; the token must not be
+  toJSON() {
+    return { header: this.header, prefix: this.prefix };
+  }
+}
+
+const toExpiresAt = (expiresIn: any): number | undefined => {
+  const seconds = Number(expiresIn);
+  return Number.isFinite(seconds) && seconds > 0
+    ? Date.now() + seconds * 1000
+    : undefined;
+};
+
+// Standard OAuth 2.0 token request with a form-encoded body
+const requestToken = async (
+  tokenUrl: string,
+  params: Record<string, string | undefined>,
+  getDispatcher?: TokenDispatcherFactory
+): Promise<AccessToken> => {
+  const body = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) body.set(key, value);
+  });
+  const fetchOptions: RequestInit = {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body,
+    signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+  };
+  if (getDispatcher) {
+    (fetchOptions as any).dispatcher = await getDispatcher(tokenUrl);
+  }
+  const response = await fetch(tokenUrl, fetchOptions);
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(
+      `token endpoint returned ${response.status}: ${text.slice(0, 200)}`
+    );
+  }
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("token endpoint returned invalid JSON");
+  }
+  if (typeof data?.access_token !== "string" || !data.access_token) {
+    throw new Error("token endpoint returned no access_token");
+  }
+  return {
+    token: data.access_token,
+    expiresAt: toExpiresAt(data.expires_in),
+  };
+};
+
+const base64url = (value: string | Buffer): string =>
+  Buffer.from(value).toString("base64url");
+
+/**
+ * OAuth 2.0 client credentials grant
+ */
+export const fetchClientCredentialsToken = async (
+  config: Extract<TokenAuthConfig, { type: "oauth2" }>,
+  getDispatcher?: TokenDispatcherFactory
+): Promise<AccessToken> =>
+  requestToken(
+    config.token_url,
+    {
+      grant_type: "client_credentials",
+      client_id: config.client_id,
+      client_secret: await resolveSecret(config.client_secret),
+      scope: config.scope,
+      audience: config.audience,
+    },
+    getDispatcher
+  );
+
+/**
+ * JWT bearer grant (RFC 7523): a JWT signed with the service account key is
+ * exchanged for an access token
+ */
+export const fetchJwtBearerToken = async (
+  config: Extract<TokenAuthConfig, { type: "jwt" }>,
+  getDispatcher?: TokenDispatcherFactory
+): Promise<AccessToken> => {
+  const credentials = JSON.parse(
+    await readFile(expandPath(config.credentials_file), "utf-8")
+  );
+  const tokenUrl = config.token_url || credentials.token_uri;
+  if (!credentials.client_email || !credentials.private_key || !tokenUrl) {
+    throw new Error(
+      `${config.credentials_file} needs client_email, private_key and token_uri`
+    );
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64url(
+    JSON.stringify({
+      iss: credentials.client_email,
+      sub: credentials.client_email,
+      aud: config.audience || tokenUrl,
+      scope: config.scope,
+      iat: now,
+      exp: now + JWT_LIFETIME_S,
+    })
+  );
+  const signature = createSign("RSA-SHA256")
+    .update(`${header}.${claims}`)
+    .sign(credentials.private_key);
+
+  return requestToken(
+    tokenUrl,
+    {
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${header}.${claims}.${base64url(signature)}`,
+    },
+    getDispatcher
+  );
+};
+
+/**
+ * Google application default credentials: GOOGLE_APPLICATION_CREDENTIALS,
+ * gcloud login or the metadata server
+ */
+export const fetchGoogleToken = async (
+  scope: string = GOOGLE_CLOUD_SCOPE
+): Promise<AccessToken> => {
+  let client: any;
+  let token: string | null | undefined;
+  try {
+    const { GoogleAuth } = await import("google-auth-library");
+    client = await new GoogleAuth({ scopes: [scope] }).getClient();
+    ({ token } = await client.getAccessToken());
+  } catch (error: any) {
+    throw new Error(
+      `${error.message}. Set GOOGLE_APPLICATION_CREDENTIALS to a service account key file, ` +
+        `run "gcloud auth application-default login", or run in a Google Cloud environment with a default service account`
+    );
+  }
+  if (!token) {
+    throw new Error("Google application default credentials returned no token");
+  }
+  return {
+    token,
+    expiresAt: client.credentials?.expiry_date || undefined,
+  };
+};
+
+/**
+ * Token provider described by the `auth` entry of a provider. OAuth 2.0 and
+ * JWT token requests use the dispatchers of `getDispatcher`; Google
+ * credentials bring their own transport.
+ */
+export const createTokenProvider = (
+  config: TokenAuthConfig,
+  getDispatcher?: TokenDispatcherFactory
+): TokenProvider => {
+  switch (config.type) {
+    case "oauth2":
+      return new RefreshableTokenProvider(
+        () => fetchClientCredentialsToken(config, getDispatcher),
+        config.header,
+        config.prefix
+      );
+    case "jwt":
+      return new RefreshableTokenProvider(
+        () => fetchJwtBearerToken(config, getDispatcher),
+        config.header,
+        config.prefix
+      );
+    case "google":
+      return new RefreshableTokenProvider(
+        () => fetchGoogleToken(config.scope),
+        config.header,
+        config.prefix
+      );
+    default:
+      throw new Error(`Unknown auth type '${(config as any).type}'`);
+  }
+};
+
+/**
+ * Shared by the Vertex transformers, so every Vertex provider reuses one
+ * token until it is about to expire
+ */
+export const googleCloudTokens = new RefreshableTokenProvider(() =>
+  fetchGoogleToken()
+);
@@ -0,0 +1,171 @@
+import type { TokenUsage } from "./pricing";
+
+const mergeUsage = (target: TokenUsage, usage: any) => {
+  if (!usage || typeof usage !== "object") return;
+  for (const key of [
+    "input_tokens",
+    "output_tokens",
+    "cache_read_input_tokens",
+    "cache_creation_input_tokens",
+  ] as const) {
+    if (typeof usage[key] === "number") {
+      target[key] = usage[key];
+    }
+  }
+};
+
+export interface ResponseSummary {
+  usage?: TokenUsage;
+  stopReason?: string;
+  text: string;
+  // Names of the tools the model called, in order
+  toolCalls: string[];
+  // Time the first chunk of a stream arrived
+  firstChunkAt?: number;
+}
+
+const summarizeMessage = (data: any): ResponseSummary => {
+  const content = Array.isArray(data?.content) ? data.content : [];
+  return {
+    usage: data?.usage ? { ...data.usage } : undefined,
+    stopReason: data?.stop_reason || undefined,
+    text: content
+      .filter((block: any) => block?.type === "text")
+      .map((block: any) => block.text || "")
+      .join(""),
+    toolCalls: content
+      .filter((block: any) => block?.type === "tool_use")
+      .map((block: any) => block.name),
+  };
+};
+
+/**
+ * Report what an Anthropic-format response contained once it is complete.
+ *
+ * Streams are passed through untouched while their events are inspected.
+ * The callback also fires when the client goes away mid-stream, with what
+ * was seen so far.
+ */
+export const observeResponse = (
+  response: Response,
+  isStream: boolean,
+  onDone: (summary: ResponseSummary) => void
+): Response => {
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  if (!isStream) {
+    response
+      .clone()
+      .json()
+      .then((data: any) => onDone(summarizeMessage(data)))
+      .catch(() => onDone({ text: "", toolCalls: [] }));
+    return response;
+  }
+
+  const summary: ResponseSummary = { text: "", toolCalls: [] };
+  const usage: TokenUsage = {};
+  let reported = false;
+  const report = () => {
+    if (reported) return;
+    reported = true;
+    onDone(summary);
+  };
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const inspect = (text: string) => {
+    buffer += text;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      try {
+        const data = JSON.parse(line.slice(5).trim());
+        if (data?.type === "message_start") {
+          mergeUsage(usage, data.message?.usage);
+          summary.usage = usage;
+        } else if (data?.type === "message_delta") {
+          mergeUsage(usage, data.usage);
+          summary.usage = usage;
+          if (data.delta?.stop_reason) {
+            summary.stopReason = data.delta.stop_reason;
+          }
+        } else if (
+          data?.type === "content_block_start" &&
+          data.content_block?.type === "tool_use"
+        ) {
+          summary.toolCalls.push(data.content_block.name);
+        } else if (
+          data?.type === "content_block_delta" &&
+          data.delta?.type === "text_delta"
+        ) {
+          summary.text += data.delta.text || "";
+        }
+      } catch {}
+    }
+  };
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          report();
+          controller.close();
+          return;
+        }
+        if (!summary.firstChunkAt) summary.firstChunkAt = Date.now();
+        inspect(typeof value === "string" ? value : decoder.decode(value, { stream: true }));
+        controller.enqueue(value);
+      } catch (error) {
+        report();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      report();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Report the usage of an Anthropic-format response once it is known
+ */
+export const observeUsage = (
+  response: Response,
+  isStream: boolean,
+  onUsage: (usage: TokenUsage) => void
+): Response =>
+  observeResponse(response, isStream, (summary) => {
+    if (summary.usage) onUsage(summary.usage);
+  });
+
+/**
+ * Read a response to the end and summarize it
+ */
+export const readResponse = (
+  response: Response,
+  isStream: boolean
+): Promise<ResponseSummary> =>
+  new Promise((resolve, reject) => {
+    if (!response.ok) {
+      reject(new Error(`HTTP ${response.status}`));
+      return;
+    }
+    if (!response.body) {
+      resolve({ text: "", toolCalls: [] });
+      return;
+    }
+    const observed = observeResponse(response, isStream, resolve);
+    observed.text().catch(reject);
+  });
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CircuitBreakerRegistry,
+  getCircuitBreakerOptions,
+  isCircuitFailure,
+} from "../src/utils/circuitBreaker";
+
+const TARGET = "p,m";
+const options = getCircuitBreakerOptions({
+  failureRateThreshold: 0.5,
+  minimumRequests: 4,
+  windowMs: 10000,
+  cooldownMs: 1000,
+});
+
+const state = (breakers: CircuitBreakerRegistry) =>
+  breakers.getSnapshots(options).find((snapshot) => snapshot.target === TARGET)?.state;
+
+const fail = (breakers: CircuitBreakerRegistry, times: number) => {
+  for (let i = 0; i < times; i++) {
+    breakers.onRequest(TARGET, options);
+    breakers.recordFailure(TARGET, options, "HTTP 500");
+  }
+};
+
+describe("getCircuitBreakerOptions", () => {
+  it("disables breakers without a config entry", () => {
+    assert.equal(getCircuitBreakerOptions(undefined).enabled, false);
+    assert.equal(getCircuitBreakerOptions({}).enabled, true);
+    assert.equal(getCircuitBreakerOptions({ cooldownMs: 5 }).minimumRequests, 5);
+  });
+});
+
+describe("isCircuitFailure", () => {
+  it("counts 5xx, 429 and network errors but not client errors", () => {
+    const status = (code: number) => ({ code: "provider_response_error", statusCode: code });
+    assert.equal(isCircuitFailure(status(500)), true);
+    assert.equal(isCircuitFailure(status(429)), true);
+    assert.equal(isCircuitFailure(status(400)), false);
+    assert.equal(isCircuitFailure(status(401)), false);
+    assert.equal(isCircuitFailure(new TypeError("fetch failed")), true);
+  });
+});
+
+describe("CircuitBreakerRegistry", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 1_000_000 }));
+  afterEach(() => mock.timers.reset());
+
+  it("stays closed until enough requests have been seen", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 3);
+    assert.equal(state(breakers), "closed");
+    assert.equal(breakers.isAvailable(TARGET, options), true);
+    fail(breakers, 1);
+    assert.equal(state(breakers), "open");
+    assert.equal(breakers.isAvailable(TARGET, options), false);
+  });
+
+  it("opens on the failure rate, not the failure count", () => {
+    const breakers = new CircuitBreakerRegistry();
+    for (let i = 0; i < 4; i++) {
+      breakers.recordSuccess(TARGET, options);
+    }
+    fail(breakers, 3);
+    assert.equal(state(breakers), "closed");
+    fail(breakers, 1);
+    assert.equal(state(breakers), "open");
+  });
+
+  it("forgets outcomes older than the window", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 3);
+    mock.timers.tick(options.windowMs + 1);
+    fail(breakers, 1);
+    assert.equal(state(breakers), "closed");
+  });
+
+  it("lets one trial through after the cool-down and closes on its success", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 4);
+    mock.timers.tick(options.cooldownMs - 1);
+    assert.equal(breakers.isAvailable(TARGET, options), false);
+    mock.timers.tick(1);
+    assert.equal(breakers.isAvailable(TARGET, options), true);
+
+    breakers.onRequest(TARGET, options);
+    assert.equal(state(breakers), "half-open");
+    // Only the trial goes through
+    assert.equal(breakers.isAvailable(TARGET, options), false);
+
+    breakers.recordSuccess(TARGET, options);
+    assert.equal(state(breakers), "closed");
+    assert.equal(breakers.getSnapshots(options)[0].requests, 0);
+  });
+
+  it("reopens when the trial fails", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 4);
+    mock.timers.tick(options.cooldownMs);
+    fail(breakers, 1);
+    const [snapshot] = breakers.getSnapshots(options);
+    assert.equal(snapshot.state, "open");
+    assert.equal(snapshot.lastError, "HTTP 500");
+    assert.equal(snapshot.retryAt, new Date(Date.now() + options.cooldownMs).toISOString());
+  });
+
+  it("allows another trial when one never reports back", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 4);
+    mock.timers.tick(options.cooldownMs);
+    breakers.onRequest(TARGET, options);
+    assert.equal(breakers.isAvailable(TARGET, options), false);
+    mock.timers.tick(options.cooldownMs);
+    assert.equal(breakers.isAvailable(TARGET, options), true);
+  });
+
+  it("records nothing when disabled", () => {
+    const breakers = new CircuitBreakerRegistry();
+    const disabled = getCircuitBreakerOptions(undefined);
+    for (let i = 0; i < 10; i++) {
+      breakers.recordFailure(TARGET, disabled);
+    }
+    assert.equal(breakers.isAvailable(TARGET, disabled), true);
+    assert.deepEqual(breakers.getSnapshots(), []);
+  });
+
+  it("resets one target or all of them", () => {
+    const breakers = new CircuitBreakerRegistry();
+    fail(breakers, 4);
+    breakers.recordFailure("q,m", options);
+    breakers.reset(TARGET);
+    assert.equal(breakers.isAvailable(TARGET, options), true);
+    assert.deepEqual(breakers.getSnapshots().map((snapshot) => snapshot.target), ["q,m"]);
+    breakers.reset();
+    assert.deepEqual(breakers.getSnapshots(), []);
+  });
+});
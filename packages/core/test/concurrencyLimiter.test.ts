@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ConcurrencyLimiterRegistry,
+  releaseWhenRead,
+} from "../src/utils/concurrencyLimiter";
+
+describe("ConcurrencyLimiterRegistry", () => {
+  it("hands free slots out by scenario priority, in arrival order within one", async () => {
+    const limiter = new ConcurrencyLimiterRegistry();
+    const release = await limiter.acquire("p", 1);
+    const served: string[] = [];
+    const waiting = ["background", "default", "longContext", "think"].map((scenario) =>
+      limiter.acquire("p", 1, scenario).then((next) => {
+        served.push(scenario);
+        next();
+      })
+    );
+
+    release();
+    await Promise.all(waiting);
+    assert.deepEqual(served, ["default", "think", "longContext", "background"]);
+    assert.equal(limiter.getSnapshots()[0].active, 0);
+  });
+
+  it("drops an aborted waiter", async () => {
+    const limiter = new ConcurrencyLimiterRegistry();
+    const release = await limiter.acquire("p", 1);
+    const controller = new AbortController();
+    const aborted = limiter.acquire("p", 1, "default", controller.signal);
+    const next = limiter.acquire("p", 1);
+
+    controller.abort(new Error("gone"));
+    await assert.rejects(aborted, /gone/);
+    assert.equal(limiter.getSnapshots()[0].queued, 1);
+    release();
+    (await next)();
+    assert.equal(limiter.getSnapshots()[0].active, 0);
+  });
+
+  it("counts a released slot once", async () => {
+    const limiter = new ConcurrencyLimiterRegistry();
+    const release = await limiter.acquire("p", 2);
+    release();
+    release();
+    assert.equal(limiter.getSnapshots()[0].active, 0);
+  });
+});
+
+describe("releaseWhenRead", () => {
+  it("gives the slot back once the body has been read", async () => {
+    let released = 0;
+    const response = releaseWhenRead(new Response("hello"), () => released++);
+    assert.equal(released, 0);
+    assert.equal(await response.text(), "hello");
+    assert.equal(released, 1);
+  });
+
+  it("gives the slot back when the body is cancelled", async () => {
+    let released = 0;
+    const response = releaseWhenRead(new Response("hello"), () => released++);
+    await response.body!.cancel();
+    assert.equal(released, 1);
+  });
+});
@@ -0,0 +1,73 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigService } from "../src/services/config";
+
+describe("ConfigService.persist", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "config-"));
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const setup = async (name: string) => {
+    const jsonPath = join(dir, name);
+    await writeFile(
+      jsonPath,
+      JSON.stringify({ Providers: [{ name: "a", api_key: "$A_KEY" }], PORT: 3456 }),
+      { mode: 0o600 }
+    );
+    const providers = [{ name: "a", api_key: "resolved" }];
+    const configService = new ConfigService({
+      jsonPath,
+      initialConfig: { Providers: providers, providers },
+    });
+    return { jsonPath, configService };
+  };
+
+  it("keeps every change when persists overlap", async () => {
+    const { jsonPath, configService } = await setup("overlap.json");
+    const add = (name: string) => (providers: any[]) => [...(providers || []), { name }];
+
+    await Promise.all(
+      ["b", "c", "d", "e"].map((name) =>
+        configService.persist("providers", add(name), "Providers")
+      )
+    );
+
+    const file = JSON.parse(await readFile(jsonPath, "utf8"));
+    assert.deepEqual(
+      file.Providers.map((provider: any) => provider.name),
+      ["a", "b", "c", "d", "e"]
+    );
+    assert.equal(file.PORT, 3456);
+    assert.equal((await stat(jsonPath)).mode & 0o777, 0o600);
+    assert.equal(
+      (await readdir(dir)).filter((file) => file.endsWith(".tmp")).length,
+      0
+    );
+  });
+
+  it("writes placeholders to the file and resolved values to the loaded config", async () => {
+    const { jsonPath, configService } = await setup("placeholders.json");
+    const rename = (providers: any[]) =>
+      providers.map((provider) => ({ ...provider, name: "renamed" }));
+
+    await configService.persist("providers", rename, "Providers");
+
+    const file = JSON.parse(await readFile(jsonPath, "utf8"));
+    assert.deepEqual(file.Providers, [{ name: "renamed", api_key: "$A_KEY" }]);
+    for (const key of ["providers", "Providers"]) {
+      assert.deepEqual(configService.get(key), [{ name: "renamed", api_key: "resolved" }]);
+    }
+  });
+
+  it("emits the loaded value once the file is written", async () => {
+    const { configService } = await setup("change.json");
+    const changes: any[] = [];
+    configService.on("change", (key, value) => changes.push([key, value.length]));
+
+    await configService.persist("providers", (providers) => [...providers, { name: "b" }], "Providers");
+
+    assert.deepEqual(changes, [["providers", 2]]);
+  });
+});
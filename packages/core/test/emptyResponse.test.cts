@@ -0,0 +1,101 @@
+// CommonJS, like the cjs build: src/server.ts re-exports types by name,
+// which an ES module import of it rejects
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import Server from "../src/server";
+
+const startServer = async (
+  respond: (res: ServerResponse) => void
+): Promise<{ server: Server; close: () => Promise<void> }> => {
+  const upstream = createServer((_, res) => respond(res));
+  await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+  const { port } = upstream.address() as AddressInfo;
+
+  const server = new Server({
+    initialConfig: {
+      PORT: 0,
+      providers: [
+        {
+          name: "p",
+          api_base_url: `http://127.0.0.1:${port}/v1/chat/completions`,
+          api_key: "key",
+          models: ["m"],
+          maxConcurrency: 1,
+        },
+      ],
+      Router: { default: "p,m" },
+    },
+    logger: false,
+    useJsonFile: false,
+  } as any);
+  while (!server.providerService) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  await server.start();
+  return {
+    server,
+    close: async () => {
+      await server.app.close();
+      upstream.close();
+    },
+  };
+};
+
+const sendMessage = (server: Server) =>
+  server.app.inject({
+    method: "POST",
+    url: "/v1/messages",
+    payload: {
+      model: "p,m",
+      max_tokens: 10,
+      messages: [{ role: "user", content: "hi" }],
+    },
+  });
+
+const activeSlots = async (server: Server) => {
+  const { providers } = (
+    await server.app.inject({ method: "GET", url: "/concurrency" })
+  ).json();
+  return providers[0].active;
+};
+
+describe("empty provider responses", () => {
+  it("free the concurrency slot", async () => {
+    const { server, close } = await startServer((res) => {
+      res.writeHead(200, { "content-type": "application/json", "content-length": "0" });
+      res.end();
+    });
+
+    try {
+      // With the slot kept, the second request would wait forever
+      for (let i = 0; i < 2; i++) {
+        const response = await sendMessage(server);
+        assert.equal(response.statusCode, 502);
+        assert.equal(response.json().error.code, "empty_response");
+      }
+      assert.equal(await activeSlots(server), 0);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe("error responses", () => {
+  it("free the concurrency slot when the body breaks off", async () => {
+    const { server, close } = await startServer((res) => {
+      res.writeHead(500, { "content-type": "application/json", "content-length": "100" });
+      res.write('{"error":');
+      setTimeout(() => res.destroy(), 20);
+    });
+
+    try {
+      const response = await sendMessage(server);
+      assert.equal(response.statusCode, 500);
+      assert.equal(await activeSlots(server), 0);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EventStreamDecoder,
+  crc32,
+  encodeEventStreamMessage,
+} from "../src/utils/eventStream";
+
+const text = (payload: Uint8Array) => new TextDecoder().decode(payload);
+
+const event = (type: string, payload: object) =>
+  encodeEventStreamMessage(
+    { ":event-type": type, ":content-type": "application/json", ":message-type": "event" },
+    JSON.stringify(payload)
+  );
+
+// Frame raw header bytes the way AWS does, for value types the encoder
+// does not write
+const frame = (headers: number[], payload: string) => {
+  const body = new TextEncoder().encode(payload);
+  const message = new Uint8Array(12 + headers.length + body.length + 4);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, message.length);
+  view.setUint32(4, headers.length);
+  view.setUint32(8, crc32(message.subarray(0, 8)));
+  message.set(headers, 12);
+  message.set(body, 12 + headers.length);
+  view.setUint32(message.length - 4, crc32(message.subarray(0, message.length - 4)));
+  return message;
+};
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    assert.equal(crc32(new TextEncoder().encode("123456789")), 0xcbf43926);
+  });
+});
+
+describe("EventStreamDecoder", () => {
+  it("decodes what the encoder wrote", () => {
+    const messages = new EventStreamDecoder().push(
+      event("contentBlockDelta", { delta: { text: "Hello" } })
+    );
+    assert.equal(messages.length, 1);
+    assert.deepEqual(messages[0].headers, {
+      ":event-type": "contentBlockDelta",
+      ":content-type": "application/json",
+      ":message-type": "event",
+    });
+    assert.deepEqual(JSON.parse(text(messages[0].payload)), { delta: { text: "Hello" } });
+  });
+
+  it("reassembles messages split across chunks", () => {
+    const stream = Buffer.concat([
+      event("messageStart", { role: "assistant" }),
+      event("messageStop", { stopReason: "end_turn" }),
+    ]);
+    const decoder = new EventStreamDecoder();
+    const types: string[] = [];
+    for (let i = 0; i < stream.length; i += 7) {
+      decoder
+        .push(stream.subarray(i, i + 7))
+        .forEach((message) => types.push(message.headers[":event-type"] as string));
+    }
+    assert.deepEqual(types, ["messageStart", "messageStop"]);
+    assert.equal(decoder.pending, 0);
+  });
+
+  it("keeps an unfinished message for the next chunk", () => {
+    const message = event("messageStart", { role: "assistant" });
+    const decoder = new EventStreamDecoder();
+    assert.deepEqual(decoder.push(message.subarray(0, 20)), []);
+    assert.equal(decoder.pending, 20);
+    assert.equal(decoder.push(message.subarray(20)).length, 1);
+  });
+
+  it("decodes boolean, integer and byte array headers", () => {
+    const headers = [
+      1, 0x61, 0, // a: true
+      1, 0x62, 1, // b: false
+      1, 0x63, 4, 0, 0, 1, 0, // c: int32 256
+      1, 0x64, 6, 0, 2, 9, 8, // d: bytes [9, 8]
+    ];
+    const [message] = new EventStreamDecoder().push(frame(headers, "{}"));
+    assert.deepEqual(message.headers, {
+      a: true,
+      b: false,
+      c: 256,
+      d: new Uint8Array([9, 8]),
+    });
+    assert.equal(text(message.payload), "{}");
+  });
+
+  it("rejects a corrupted message", () => {
+    const message = event("messageStart", { role: "assistant" });
+    message[message.length - 10] ^= 0xff;
+    assert.throws(
+      () => new EventStreamDecoder().push(message),
+      /message checksum mismatch/
+    );
+  });
+
+  it("rejects a corrupted prelude", () => {
+    const message = event("messageStart", { role: "assistant" });
+    message[3] ^= 0x01;
+    assert.throws(() => new EventStreamDecoder().push(message), /prelude checksum mismatch/);
+  });
+});
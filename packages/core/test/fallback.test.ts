@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createApiError } from "../src/api/middleware";
+import {
+  DEFAULT_FALLBACK_TRIGGERS,
+  classifyError,
+  getFallbackRule,
+  isEmptyMessage,
+  matchesTrigger,
+} from "../src/utils/fallback";
+
+const providerError = (status: number, text: string) =>
+  createApiError(
+    `Error from provider(p,m: ${status}): ${text}`,
+    status,
+    "provider_response_error"
+  );
+
+const withCause = (message: string, cause: any) =>
+  Object.assign(new TypeError(message), { cause });
+
+describe("classifyError", () => {
+  it("classifies provider responses by status", () => {
+    assert.deepEqual(classifyError(providerError(503, "overloaded")), {
+      class: "status",
+      status: 503,
+    });
+    assert.deepEqual(classifyError(providerError(400, "invalid tool schema")), {
+      class: "status",
+      status: 400,
+    });
+  });
+
+  it("recognizes context length errors of several providers", () => {
+    for (const text of [
+      "This model's maximum context length is 128000 tokens",
+      "prompt is too long: 210000 tokens > 200000 maximum",
+      "Input is too long for requested model",
+      "context_length_exceeded",
+      "The input exceeds the context window",
+    ]) {
+      assert.deepEqual(
+        classifyError(providerError(400, text)),
+        { class: "context_length", status: 400 },
+        text
+      );
+    }
+    // Only for client errors
+    assert.equal(classifyError(providerError(500, "prompt is too long"))?.class, "status");
+  });
+
+  it("treats the client-side rate limit like a 429", () => {
+    assert.deepEqual(classifyError(createApiError("wait", 429, "rate_limited")), {
+      class: "status",
+      status: 429,
+    });
+  });
+
+  it("classifies empty responses", () => {
+    assert.deepEqual(classifyError(createApiError("empty", 502, "empty_response")), {
+      class: "empty_response",
+      status: 502,
+    });
+  });
+
+  it("tells timeouts from other network errors", () => {
+    assert.equal(
+      classifyError(withCause("fetch failed", { code: "UND_ERR_HEADERS_TIMEOUT" }))?.class,
+      "timeout"
+    );
+    assert.equal(classifyError(new DOMException("timed out", "TimeoutError"))?.class, "timeout");
+    assert.equal(
+      classifyError(withCause("fetch failed", { code: "ECONNREFUSED" }))?.class,
+      "network"
+    );
+    assert.equal(classifyError(new TypeError("fetch failed"))?.class, "network");
+  });
+
+  it("leaves errors that are not upstream failures alone", () => {
+    assert.equal(classifyError(createApiError("missing", 404, "provider_not_found")), undefined);
+    assert.equal(classifyError(new Error("Client disconnected")), undefined);
+    assert.equal(classifyError(undefined), undefined);
+  });
+});
+
+describe("matchesTrigger", () => {
+  it("matches codes, classes and ranges", () => {
+    const failure = { class: "status" as const, status: 503 };
+    assert.equal(matchesTrigger(failure, ["503"]), true);
+    assert.equal(matchesTrigger(failure, ["5xx"]), true);
+    assert.equal(matchesTrigger(failure, ["500-504"]), true);
+    assert.equal(matchesTrigger(failure, ["429", "4xx", "505-599", "timeout"]), false);
+    assert.equal(matchesTrigger({ class: "timeout" }, ["timeout"]), true);
+  });
+
+  it("matches context length failures by class and by status", () => {
+    const failure = { class: "context_length" as const, status: 400 };
+    assert.equal(matchesTrigger(failure, ["context_length"]), true);
+    assert.equal(matchesTrigger(failure, ["4xx"]), true);
+    assert.equal(matchesTrigger(failure, ["5xx", "network"]), false);
+  });
+});
+
+describe("getFallbackRule", () => {
+  it("uses every trigger for a plain list", () => {
+    assert.deepEqual(getFallbackRule({ default: ["a,x"] }, "default"), {
+      models: ["a,x"],
+      on: DEFAULT_FALLBACK_TRIGGERS,
+    });
+  });
+
+  it("reads models and triggers of a rule", () => {
+    assert.deepEqual(
+      getFallbackRule({ think: { models: ["a,x"], on: ["429", "timeout"] } }, "think"),
+      { models: ["a,x"], on: ["429", "timeout"] }
+    );
+    assert.deepEqual(
+      getFallbackRule({ think: { models: ["a,x"], on: [] } }, "think").on,
+      DEFAULT_FALLBACK_TRIGGERS
+    );
+    assert.deepEqual(getFallbackRule(undefined, "default").models, []);
+  });
+});
+
+describe("isEmptyMessage", () => {
+  it("is true only for messages with nothing but blank text", () => {
+    assert.equal(isEmptyMessage({ content: [] }), true);
+    assert.equal(isEmptyMessage({ content: [{ type: "text", text: " \n" }] }), true);
+    assert.equal(isEmptyMessage({ content: [{ type: "text", text: "hi" }] }), false);
+    assert.equal(
+      isEmptyMessage({ content: [{ type: "tool_use", id: "t", name: "Read", input: {} }] }),
+      false
+    );
+    assert.equal(isEmptyMessage({ type: "error" }), false);
+  });
+});
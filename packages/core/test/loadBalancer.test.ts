@@ -0,0 +1,113 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { LoadBalancer, filterTargets, getTargetModels } from "../src/utils/loadBalancer";
+
+const pick = (balancer: LoadBalancer, spec: any, times: number, options = {}) =>
+  Array.from({ length: times }, () => balancer.select(spec, options)?.model);
+
+describe("getTargetModels", () => {
+  it("lists the targets of every spec form in order", () => {
+    assert.deepEqual(getTargetModels("a,x"), ["a,x"]);
+    assert.deepEqual(getTargetModels(["a,x", { model: "b,y", weight: 3 }]), ["a,x", "b,y"]);
+    assert.deepEqual(
+      getTargetModels({ strategy: "round-robin", targets: ["a,x", { model: "b,y" }] }),
+      ["a,x", "b,y"]
+    );
+    assert.deepEqual(getTargetModels(undefined), []);
+  });
+
+  it("leaves out targets with a zero weight or no model", () => {
+    assert.deepEqual(
+      getTargetModels(["a,x", { model: "b,y", weight: 0 }, { weight: 1 } as any]),
+      ["a,x"]
+    );
+  });
+});
+
+describe("filterTargets", () => {
+  it("keeps weights and strategy of the remaining targets", () => {
+    assert.deepEqual(
+      filterTargets(
+        { strategy: "round-robin", targets: ["a,x", { model: "b,y", weight: 2 }] },
+        (model) => model !== "a,x"
+      ),
+      { strategy: "round-robin", targets: [{ model: "b,y", weight: 2 }] }
+    );
+  });
+
+  it("returns the spec unchanged when no target would be left", () => {
+    const spec = ["a,x", "b,y"];
+    assert.equal(filterTargets(spec, () => false), spec);
+    assert.equal(filterTargets("a,x", () => false), "a,x");
+  });
+});
+
+describe("LoadBalancer.select", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("returns a single target with itself as the only candidate", () => {
+    assert.deepEqual(new LoadBalancer().select("a,x"), { model: "a,x", candidates: ["a,x"] });
+  });
+
+  it("picks by weight", () => {
+    const spec = [
+      { model: "a,x", weight: 1 },
+      { model: "b,y", weight: 3 },
+    ];
+    const balancer = new LoadBalancer();
+    const random = mock.method(Math, "random", () => 0.2);
+    assert.equal(balancer.select(spec)?.model, "a,x");
+    random.mock.mockImplementation(() => 0.3);
+    assert.equal(balancer.select(spec)?.model, "b,y");
+    random.mock.mockImplementation(() => 0.99);
+    assert.equal(balancer.select(spec)?.model, "b,y");
+  });
+
+  it("lists the other targets as candidates after the selected one", () => {
+    mock.method(Math, "random", () => 0.9);
+    assert.deepEqual(new LoadBalancer().select(["a,x", "b,y", "c,z"])?.candidates, [
+      "c,z",
+      "a,x",
+      "b,y",
+    ]);
+  });
+
+  it("cycles with round-robin, without advancing on a dry run", () => {
+    const balancer = new LoadBalancer();
+    const spec = { strategy: "round-robin" as const, targets: ["a,x", "b,y"] };
+    assert.deepEqual(pick(balancer, spec, 3), ["a,x", "b,y", "a,x"]);
+    assert.deepEqual(pick(balancer, spec, 2, { dryRun: true }), ["b,y", "b,y"]);
+    assert.deepEqual(pick(balancer, spec, 1), ["b,y"]);
+  });
+
+  it("uses the default strategy for lists without their own", () => {
+    const balancer = new LoadBalancer();
+    assert.deepEqual(pick(balancer, ["a,x", "b,y"], 2, { strategy: "round-robin" }), [
+      "a,x",
+      "b,y",
+    ]);
+  });
+
+  it("sends least-outstanding requests to the target with fewest in flight", () => {
+    const balancer = new LoadBalancer();
+    const spec = { strategy: "least-outstanding" as const, targets: ["a,x", "b,y", "c,z"] };
+    balancer.acquire("a,x");
+    balancer.acquire("b,y");
+    assert.equal(balancer.select(spec)?.model, "c,z");
+
+    balancer.acquire("c,z");
+    balancer.acquire("c,z");
+    balancer.release("a,x");
+    assert.equal(balancer.select(spec)?.model, "a,x");
+    assert.deepEqual(balancer.getOutstanding(), { "b,y": 1, "c,z": 2 });
+  });
+
+  it("never counts a target below zero", () => {
+    const balancer = new LoadBalancer();
+    balancer.release("a,x");
+    balancer.acquire("a,x");
+    assert.deepEqual(balancer.getOutstanding(), { "a,x": 1 });
+    balancer.release("a,x");
+    assert.deepEqual(balancer.getOutstanding(), {});
+  });
+});
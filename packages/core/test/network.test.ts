@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ConnectionPoolRegistry, getNetworkOptions, getProxy } from "../src/utils/network";
+
+const PROXY = "http://proxy.internal:3128";
+
+const proxyFor = (url: string, noProxy?: string | string[]) =>
+  getProxy(url, { proxy: PROXY, noProxy });
+
+describe("getProxy", () => {
+  it("uses the proxy when no entry matches", () => {
+    assert.equal(proxyFor("https://api.openai.com/v1"), PROXY);
+    assert.equal(proxyFor("https://api.openai.com/v1", "localhost,example.com"), PROXY);
+  });
+
+  it("connects directly without a proxy", () => {
+    assert.equal(getProxy("https://api.openai.com", {}), undefined);
+    assert.equal(getProxy("https://api.openai.com", { proxy: false }), undefined);
+  });
+
+  it("matches a domain and its subdomains, with or without a leading dot", () => {
+    for (const entry of ["example.com", ".example.com", "*.example.com"]) {
+      assert.equal(proxyFor("https://example.com", entry), undefined, entry);
+      assert.equal(proxyFor("https://api.example.com", entry), undefined, entry);
+    }
+    assert.equal(proxyFor("https://badexample.com", "example.com"), PROXY);
+  });
+
+  it("ignores case and whitespace, and takes lists or arrays", () => {
+    assert.equal(proxyFor("https://API.Example.com", " foo.com , EXAMPLE.com "), undefined);
+    assert.equal(proxyFor("https://api.example.com", "foo.com example.com"), undefined);
+    assert.equal(proxyFor("https://api.example.com", ["foo.com", "example.com"]), undefined);
+  });
+
+  it("matches a port only when it is the one of the URL", () => {
+    assert.equal(proxyFor("http://localhost:11434", "localhost:11434"), undefined);
+    assert.equal(proxyFor("http://localhost:8080", "localhost:11434"), PROXY);
+    assert.equal(proxyFor("https://example.com", "example.com:443"), undefined);
+    assert.equal(proxyFor("http://example.com", "example.com:443"), PROXY);
+  });
+
+  it("matches IP addresses and CIDR ranges", () => {
+    assert.equal(proxyFor("http://127.0.0.1:1234", "127.0.0.1"), undefined);
+    assert.equal(proxyFor("http://10.1.2.3", "10.0.0.0/8"), undefined);
+    assert.equal(proxyFor("http://11.1.2.3", "10.0.0.0/8"), PROXY);
+    assert.equal(proxyFor("http://example.com", "10.0.0.0/8"), PROXY);
+  });
+
+  it("matches IPv6 addresses, bracketed or not", () => {
+    assert.equal(proxyFor("http://[::1]:8080", "::1"), undefined);
+    assert.equal(proxyFor("http://[::1]:8080", "[::1]:8080"), undefined);
+    assert.equal(proxyFor("http://[::1]:8080", "[::1]:9090"), PROXY);
+    assert.equal(proxyFor("http://[fd00::5]", "fd00::/8"), undefined);
+    assert.equal(proxyFor("http://10.1.2.3", "fd00::/8"), PROXY);
+  });
+
+  it("bypasses every host with *", () => {
+    assert.equal(proxyFor("https://api.openai.com", "*"), undefined);
+  });
+});
+
+describe("getNetworkOptions", () => {
+  it("puts provider settings over the global ones and merges headers", () => {
+    assert.deepEqual(
+      getNetworkOptions(
+        { proxy: false, headers: { "x-team": "llm" } },
+        { proxy: PROXY, connectTimeoutMs: 5000, headers: { "x-org": "acme" } }
+      ),
+      {
+        proxy: false,
+        connectTimeoutMs: 5000,
+        headers: { "x-org": "acme", "x-team": "llm" },
+      }
+    );
+  });
+});
+
+describe("ConnectionPoolRegistry", () => {
+  const url = "https://api.example.com/v1";
+
+  it("reuses the pool while the settings stay the same", async () => {
+    const registry = new ConnectionPoolRegistry();
+    const first = await registry.get("p", url, { proxy: PROXY });
+    assert.equal(await registry.get("p", url, { proxy: PROXY }), first);
+    assert.notEqual(await registry.get("q", url, { proxy: PROXY }), first);
+  });
+
+  it("keeps a pool per proxy of one provider", async () => {
+    const registry = new ConnectionPoolRegistry();
+    const options = { proxy: PROXY, noProxy: "auth.example.com" };
+    await registry.get("p", url, options);
+    await registry.get("p", "https://auth.example.com/token", options);
+    await registry.get("p", url, options);
+    assert.deepEqual(
+      registry.getSnapshots().map((snapshot) => snapshot.proxy),
+      [PROXY, undefined]
+    );
+  });
+
+  it("replaces the pools of a provider when its proxy changes", async () => {
+    const registry = new ConnectionPoolRegistry();
+    const first: any = await registry.get("p", url, { proxy: PROXY });
+
+    await registry.get("p", url, { proxy: "http://other.internal:3128" });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(first.closed, true);
+    assert.deepEqual(
+      registry.getSnapshots().map((snapshot) => snapshot.proxy),
+      ["http://other.internal:3128"]
+    );
+  });
+
+  it("drops the pools of a removed provider", async () => {
+    const registry = new ConnectionPoolRegistry();
+    await registry.get("p", url, { proxy: PROXY });
+    await registry.get("q", url, {});
+    registry.remove("p");
+    assert.deepEqual(
+      registry.getSnapshots().map((snapshot) => snapshot.provider),
+      ["q"]
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiterRegistry } from "../src/utils/rateLimiter";
+
+// 20 tokens a second; a test first empties the bucket so that later
+// requests have to queue
+const TPM = 1200;
+
+const drained = async (config: { tpm: number; maxQueue?: number; maxWaitMs?: number }) => {
+  const limiter = new RateLimiterRegistry();
+  await limiter.acquire("p", "m", config.tpm, config);
+  return limiter;
+};
+
+describe("RateLimiterRegistry", () => {
+  it("lets requests through while the bucket has capacity", async () => {
+    const limiter = new RateLimiterRegistry();
+    const started = Date.now();
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire("p", "m", 0, { rpm: 5 });
+    }
+    assert.ok(Date.now() - started < 50);
+    assert.deepEqual(limiter.getSnapshots(), [
+      { target: "p", rpm: 5, availableRequests: 0 },
+    ]);
+  });
+
+  it("serves queued requests in arrival order", async () => {
+    const config = { tpm: TPM };
+    const limiter = await drained(config);
+    const served: number[] = [];
+    // The first one needs the most tokens; the others must not overtake it
+    await Promise.all(
+      [5, 1, 1].map((tokens, index) =>
+        limiter.acquire("p", "m", tokens, config).then(() => served.push(index))
+      )
+    );
+    assert.deepEqual(served, [0, 1, 2]);
+  });
+
+  it("rejects with a 429 when the queue is full", async () => {
+    const config = { tpm: TPM, maxQueue: 1 };
+    const limiter = await drained(config);
+    const controller = new AbortController();
+    const queued = limiter.acquire("p", "m", 1, config, controller.signal);
+
+    await assert.rejects(limiter.acquire("p", "m", 1, config), {
+      statusCode: 429,
+      type: "rate_limit_error",
+    });
+    controller.abort(new Error("done"));
+    await assert.rejects(queued, /done/);
+  });
+
+  it("rejects a request that would wait longer than maxWaitMs", async () => {
+    const config = { tpm: TPM, maxWaitMs: 100 };
+    const limiter = await drained(config);
+    await assert.rejects(limiter.acquire("p", "m", 100, config), {
+      statusCode: 429,
+      message: /next slot in 5s/,
+    });
+  });
+
+  it("drops an aborted request from the queue and serves the rest", async () => {
+    const config = { tpm: TPM };
+    const limiter = await drained(config);
+    const controller = new AbortController();
+    const served: string[] = [];
+    const first = limiter.acquire("p", "m", 1, config).then(() => served.push("first"));
+    const aborted = limiter.acquire("p", "m", 1, config, controller.signal);
+    const last = limiter.acquire("p", "m", 1, config).then(() => served.push("last"));
+
+    controller.abort(new Error("gone"));
+    await assert.rejects(aborted, /gone/);
+    await Promise.all([first, last]);
+    assert.deepEqual(served, ["first", "last"]);
+    assert.deepEqual(limiter.getQueueSnapshots(), [
+      { provider: "p", queued: 0, maxQueue: 50, maxWaitMs: 30000 },
+    ]);
+  });
+});
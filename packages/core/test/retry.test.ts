@@ -0,0 +1,130 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { getRetryAfterMs, getRetryDelay, getRetryOptions, sleep } from "../src/utils/retry";
+
+const NOW = Date.parse("2025-01-01T00:00:00Z");
+
+const retryAfter = (headers: Record<string, string>) => getRetryAfterMs(new Headers(headers));
+
+describe("getRetryOptions", () => {
+  it("does not retry without a retry entry", () => {
+    assert.equal(getRetryOptions(undefined, undefined).maxAttempts, 1);
+  });
+
+  it("puts the provider entry over the global one over the defaults", () => {
+    const options = getRetryOptions({ maxAttempts: 5 }, { maxAttempts: 2, baseDelayMs: 100 });
+    assert.equal(options.maxAttempts, 5);
+    assert.equal(options.baseDelayMs, 100);
+    assert.equal(options.maxDelayMs, 30000);
+    assert.ok(options.retryableStatuses.includes(529));
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  afterEach(() => mock.timers.reset());
+
+  it("reads retry-after-ms and Retry-After in seconds", () => {
+    assert.equal(retryAfter({ "retry-after-ms": "250" }), 250);
+    assert.equal(retryAfter({ "retry-after": "2" }), 2000);
+    assert.equal(retryAfter({ "retry-after": "1.5" }), 1500);
+    assert.equal(retryAfter({ "retry-after-ms": "100", "retry-after": "5" }), 100);
+  });
+
+  it("reads Retry-After as an HTTP date", () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    assert.equal(retryAfter({ "retry-after": new Date(NOW + 3000).toUTCString() }), 3000);
+    // A date in the past means no wait
+    assert.equal(retryAfter({ "retry-after": new Date(NOW - 3000).toUTCString() }), 0);
+  });
+
+  it("reads durations and epoch seconds of reset headers", () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    assert.equal(
+      retryAfter({ "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "1m30s" }),
+      90000
+    );
+    assert.equal(
+      retryAfter({ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "250ms" }),
+      250
+    );
+    assert.equal(
+      retryAfter({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW / 1000 + 7) }),
+      7000
+    );
+  });
+
+  it("uses the latest reset of the exhausted limits only", () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    const headers = {
+      "anthropic-ratelimit-requests-remaining": "10",
+      "anthropic-ratelimit-requests-reset": new Date(NOW + 60000).toISOString(),
+      "anthropic-ratelimit-tokens-remaining": "0",
+      "anthropic-ratelimit-tokens-reset": new Date(NOW + 5000).toISOString(),
+      "anthropic-ratelimit-input-tokens-remaining": "0",
+      "anthropic-ratelimit-input-tokens-reset": new Date(NOW + 8000).toISOString(),
+    };
+    assert.equal(retryAfter(headers), 8000);
+  });
+
+  it("ignores missing and unreadable values", () => {
+    assert.equal(retryAfter({}), undefined);
+    assert.equal(retryAfter({ "retry-after": "soon" }), undefined);
+    assert.equal(retryAfter({ "x-ratelimit-reset-requests": "1s" }), 1000);
+    assert.equal(
+      retryAfter({ "x-ratelimit-remaining-requests": "5", "x-ratelimit-reset-requests": "1s" }),
+      undefined
+    );
+  });
+});
+
+describe("getRetryDelay", () => {
+  const options = getRetryOptions(
+    { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0 },
+    undefined
+  );
+
+  afterEach(() => mock.restoreAll());
+
+  it("doubles the delay with each attempt up to maxDelayMs", () => {
+    assert.deepEqual(
+      [1, 2, 3].map((attempt) => getRetryDelay(attempt, options)),
+      [100, 200, 400]
+    );
+    assert.equal(getRetryDelay(3, { ...options, maxAttempts: 10, baseDelayMs: 300 }), 1000);
+  });
+
+  it("stops after maxAttempts", () => {
+    assert.equal(getRetryDelay(4, options), undefined);
+    assert.equal(getRetryDelay(1, getRetryOptions(undefined, undefined)), undefined);
+  });
+
+  it("spreads the delay by the jitter fraction", () => {
+    const jittered = { ...options, jitter: 0.5 };
+    mock.method(Math, "random", () => 0);
+    assert.equal(getRetryDelay(2, jittered), 100);
+    mock.method(Math, "random", () => 0.999999);
+    assert.equal(getRetryDelay(2, jittered), 300);
+  });
+
+  it("waits as long as the upstream asks, unless that is over maxDelayMs", () => {
+    assert.equal(getRetryDelay(1, options, new Headers({ "retry-after-ms": "700" })), 700);
+    assert.equal(getRetryDelay(1, options, new Headers({ "retry-after": "2" })), undefined);
+    // The attempt limit still applies
+    assert.equal(getRetryDelay(4, options, new Headers({ "retry-after-ms": "1" })), undefined);
+  });
+});
+
+describe("sleep", () => {
+  it("rejects with the abort reason as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const waiting = sleep(10000, controller.signal);
+    setTimeout(() => controller.abort(new Error("Client disconnected")), 10);
+    await assert.rejects(waiting, { message: "Client disconnected" });
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("rejects right away for an aborted signal", async () => {
+    await assert.rejects(sleep(10000, AbortSignal.abort(new Error("gone"))), { message: "gone" });
+  });
+});
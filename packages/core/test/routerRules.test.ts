@@ -0,0 +1,248 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RouterRuleConfig,
+  builtinRouterRules,
+  compileRouterRules,
+  evaluateRouterRules,
+  takeSubagentModel,
+} from "../src/utils/routerRules";
+
+const log = { info() {}, warn() {} };
+
+const request = (body: any = {}, headers: Record<string, string> = {}) => ({
+  body: { model: "claude-sonnet-4", messages: [], ...body },
+  headers,
+  log,
+});
+
+const route = async (
+  rules: RouterRuleConfig[],
+  req: any,
+  options: { tokenCount?: number; Router?: any; project?: string } = {}
+) => {
+  const Router = { default: "p,default", ...options.Router, rules };
+  return evaluateRouterRules(
+    [...compileRouterRules(rules, log), ...builtinRouterRules],
+    {
+      req,
+      tokenCount: options.tokenCount ?? 100,
+      Router,
+      globalRouter: Router,
+      providers: [],
+      getProject: async () => options.project ?? null,
+    }
+  );
+};
+
+describe("compileRouterRules", () => {
+  it("skips disabled rules, rules without a model and invalid patterns", () => {
+    const warnings: string[] = [];
+    const rules = compileRouterRules(
+      [
+        { name: "off", enabled: false, model: "p,a" },
+        { name: "no-model" } as any,
+        { name: "bad", match: { model: "(" }, model: "p,a" },
+        { match: { thinking: true }, model: "p,a", scenario: "think" },
+      ],
+      { warn: (message: string) => warnings.push(message) }
+    );
+    assert.deepEqual(
+      rules.map((rule) => [rule.name, rule.scenarioType]),
+      [["rule-3", "think"]]
+    );
+    assert.equal(warnings.length, 2);
+  });
+});
+
+describe("evaluateRouterRules", () => {
+  it("falls back to Router.default when nothing matches", async () => {
+    assert.deepEqual(await route([], request()), {
+      target: "p,default",
+      scenarioType: "default",
+      rule: "default",
+    });
+  });
+
+  it("takes the first matching rule, before the built-in ones", async () => {
+    const result = await route(
+      [
+        { name: "big", match: { tokens: { min: 1000 } }, model: "p,big" },
+        { name: "tools", match: { hasTools: true }, model: "p,tools" },
+        { name: "any", model: "p,any" },
+      ],
+      request({ tools: [{ name: "Read" }], thinking: { type: "enabled" } }),
+      { Router: { think: "p,think" } }
+    );
+    assert.equal(result.rule, "tools");
+    assert.equal(result.target, "p,tools");
+  });
+
+  it("requires every condition of a rule to hold", async () => {
+    const rules: RouterRuleConfig[] = [
+      {
+        name: "refactor",
+        match: {
+          tool: "^Edit$",
+          lastUserMessage: "/refactor/i",
+          headers: { "X-Team": "^platform$" },
+        },
+        model: "p,refactor",
+      },
+    ];
+    const body = {
+      tools: [{ name: "Edit" }],
+      messages: [
+        { role: "user", content: "Please REFACTOR this" },
+        { role: "user", content: [{ type: "tool_result", content: "ok" }] },
+      ],
+    };
+    assert.equal(
+      (await route(rules, request(body, { "x-team": "platform" }))).rule,
+      "refactor"
+    );
+    assert.equal((await route(rules, request(body, { "x-team": "web" }))).rule, "default");
+    assert.equal(
+      (await route(rules, request({ ...body, tools: [] }, { "x-team": "platform" }))).rule,
+      "default"
+    );
+  });
+
+  it("matches token ranges inclusively", async () => {
+    const rules: RouterRuleConfig[] = [
+      { name: "mid", match: { tokens: { min: 100, max: 200 } }, model: "p,mid" },
+    ];
+    for (const [tokenCount, rule] of [
+      [99, "default"],
+      [100, "mid"],
+      [200, "mid"],
+      [201, "default"],
+    ] as const) {
+      assert.equal((await route(rules, request(), { tokenCount })).rule, rule, String(tokenCount));
+    }
+  });
+
+  it("gives the same answer for a global regex on every request", async () => {
+    const rules: RouterRuleConfig[] = [{ name: "g", match: { model: "/sonnet/g" }, model: "p,g" }];
+    const compiled = compileRouterRules(rules);
+    const ctx = {
+      req: request(),
+      tokenCount: 0,
+      Router: { default: "p,default" },
+      globalRouter: {},
+      providers: [],
+      getProject: async () => null,
+    };
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await evaluateRouterRules(compiled, ctx)).rule, "g");
+    }
+  });
+
+  it("looks the project up only for rules that need it", async () => {
+    let lookups = 0;
+    const rules: RouterRuleConfig[] = [
+      { name: "fast", match: { thinking: false }, model: "p,fast" },
+      { name: "project", match: { project: "^web-" }, model: "p,web" },
+    ];
+    const result = await evaluateRouterRules(compileRouterRules(rules), {
+      req: request(),
+      tokenCount: 0,
+      Router: { default: "p,default" },
+      globalRouter: {},
+      providers: [],
+      getProject: async () => {
+        lookups++;
+        return "web-app";
+      },
+    });
+    assert.equal(result.rule, "fast");
+    assert.equal(lookups, 0);
+    assert.equal(
+      (await route(rules.slice(1), request(), { project: "web-app" })).rule,
+      "project"
+    );
+  });
+
+  it("keeps the built-in scenario order", async () => {
+    const Router = {
+      longContext: "p,long",
+      background: "p,background",
+      webSearch: "p,search",
+      think: "p,think",
+    };
+    const body = {
+      model: "claude-3-5-haiku",
+      tools: [{ type: "web_search_20250305" }],
+      thinking: { type: "enabled" },
+    };
+    assert.equal((await route([], request(body), { Router })).rule, "background");
+    assert.equal(
+      (await route([], request({ ...body, model: "claude-sonnet-4" }), { Router })).rule,
+      "webSearch"
+    );
+    assert.equal(
+      (await route([], request(body), { Router, tokenCount: 70000 })).rule,
+      "longContext"
+    );
+  });
+
+  it("routes to the long context model above the threshold", async () => {
+    const Router = { longContext: "p,long", longContextThreshold: 1000 };
+    assert.equal((await route([], request(), { Router, tokenCount: 1000 })).rule, "default");
+    assert.equal((await route([], request(), { Router, tokenCount: 1001 })).rule, "longContext");
+  });
+
+  it("derives the threshold per default target with \"auto\"", async () => {
+    const Router = {
+      default: ["a,claude-sonnet-4", "b,gpt-4o"],
+      longContext: "c,gemini-2.5-pro",
+      longContextThreshold: "auto",
+    };
+    // Below 60000 the static default would already have moved on
+    assert.deepEqual((await route([], request(), { Router, tokenCount: 70000 })).target, [
+      "a,claude-sonnet-4",
+      "b,gpt-4o",
+    ]);
+    // Too large for gpt-4o's 128k window only
+    assert.deepEqual((await route([], request(), { Router, tokenCount: 120000 })).target, [
+      "a,claude-sonnet-4",
+    ]);
+    assert.equal((await route([], request(), { Router, tokenCount: 170000 })).rule, "longContext");
+  });
+});
+
+describe("takeSubagentModel", () => {
+  it("returns the tagged model and removes the tag", () => {
+    const req = request({
+      system: [
+        { type: "text", text: "You are Claude Code" },
+        { type: "text", text: "<CCR-SUBAGENT-MODEL>p,sub</CCR-SUBAGENT-MODEL>Review the diff" },
+      ],
+    });
+    assert.equal(takeSubagentModel(req), "p,sub");
+    assert.equal(req.body.system[1].text, "Review the diff");
+    assert.equal(takeSubagentModel(req), undefined);
+  });
+
+  it("routes a subagent request to its model unless a rule matches first", async () => {
+    const tagged = () =>
+      request({
+        system: [
+          { type: "text", text: "system" },
+          { type: "text", text: "<CCR-SUBAGENT-MODEL>p,sub</CCR-SUBAGENT-MODEL>task" },
+        ],
+      });
+    const req = tagged();
+    assert.deepEqual(await route([], req), {
+      target: "p,sub",
+      scenarioType: "default",
+      rule: "subagent",
+    });
+    assert.equal(req.body.system[1].text, "task");
+
+    // The tag never reaches the provider, whichever rule matched
+    const matched = tagged();
+    assert.equal((await route([{ name: "any", model: "p,any" }], matched)).rule, "any");
+    assert.equal(matched.body.system[1].text, "task");
+  });
+});
@@ -0,0 +1,57 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ShadowRecord, ShadowStore } from "../src/utils/shadow";
+
+const record = (index: number): ShadowRecord => ({
+  time: new Date(index).toISOString(),
+  scenarioType: "default",
+  stream: false,
+  primary: { target: "a,x", toolCalls: [], text: `primary ${index}` },
+  shadow: { target: "b,y", toolCalls: [], text: `shadow ${index}` },
+});
+
+describe("ShadowStore", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "shadow-"));
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("moves the log aside once it reaches the size limit", async () => {
+    const file = join(dir, "rotate.jsonl");
+    const store = new ShadowStore(file);
+    const size = JSON.stringify(record(0)).length + 1;
+
+    await Promise.all(
+      Array.from({ length: 7 }, (_, index) => store.append(record(index), size * 3))
+    );
+
+    assert.equal((await stat(file)).size, size);
+    assert.equal((await readFile(`${file}.1`, "utf8")).trim().split("\n").length, 3);
+    // The oldest records are dropped, the rest are read in order
+    const records = await store.read();
+    assert.deepEqual(
+      records.map((entry) => entry.primary.text),
+      ["primary 3", "primary 4", "primary 5", "primary 6"]
+    );
+    assert.deepEqual(
+      (await store.read(2)).map((entry) => entry.primary.text),
+      ["primary 5", "primary 6"]
+    );
+  });
+
+  it("summarizes and clears both files", async () => {
+    const file = join(dir, "clear.jsonl");
+    const store = new ShadowStore(file);
+    for (let index = 0; index < 3; index++) {
+      await store.append(record(index), 1);
+    }
+
+    const [summary] = await store.summarize();
+    assert.equal(summary.requests, 2);
+
+    await store.clear();
+    assert.deepEqual(await store.read(), []);
+    await assert.rejects(stat(`${file}.1`), { code: "ENOENT" });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { signAwsRequest } from "../src/utils/sigv4";
+
+// Test suite of the AWS Signature Version 4 documentation
+const credentials = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+const date = new Date("2015-08-30T12:36:00Z");
+
+const sign = (
+  method: string,
+  url: string,
+  body = "",
+  headers: Record<string, string> = {},
+  sessionToken?: string
+) => {
+  const request = { method, url: new URL(url), headers: new Headers(headers), body };
+  signAwsRequest(request, {
+    credentials: { ...credentials, sessionToken },
+    region: "us-east-1",
+    service: "service",
+    date,
+  });
+  return request.headers;
+};
+
+describe("signAwsRequest", () => {
+  it("signs get-vanilla", () => {
+    const headers = sign("GET", "https://example.amazonaws.com/");
+    assert.equal(headers.get("x-amz-date"), "20150830T123600Z");
+    assert.equal(
+      headers.get("authorization"),
+      "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, " +
+        "SignedHeaders=host;x-amz-date, " +
+        "Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31"
+    );
+  });
+
+  it("signs get-vanilla-query-order-key-case", () => {
+    const headers = sign("GET", "https://example.amazonaws.com/?Param2=value2&Param1=value1");
+    assert.match(
+      headers.get("authorization")!,
+      /Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500$/
+    );
+  });
+
+  it("signs post-vanilla", () => {
+    const headers = sign("POST", "https://example.amazonaws.com/");
+    assert.match(
+      headers.get("authorization")!,
+      /Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b$/
+    );
+  });
+
+  it("signs post-x-www-form-urlencoded with its content type", () => {
+    const headers = sign("POST", "https://example.amazonaws.com/", "Param1=value1", {
+      "Content-Type": "application/x-www-form-urlencoded",
+    });
+    assert.match(
+      headers.get("authorization")!,
+      /SignedHeaders=content-type;host;x-amz-date, Signature=ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a$/
+    );
+  });
+
+  it("sends and signs the session token of temporary credentials", () => {
+    const headers = sign("GET", "https://example.amazonaws.com/", "", {}, "token");
+    assert.equal(headers.get("x-amz-security-token"), "token");
+    assert.match(
+      headers.get("authorization")!,
+      /SignedHeaders=host;x-amz-date;x-amz-security-token,/
+    );
+  });
+
+  it("replaces an earlier signature", () => {
+    const headers = sign("GET", "https://example.amazonaws.com/", "", {
+      Authorization: "Bearer stale",
+    });
+    assert.match(headers.get("authorization")!, /^AWS4-HMAC-SHA256 /);
+  });
+});
@@ -1,6 +1,7 @@
 import { IAgent, ITool } from "./type";
 import { createHash } from "crypto";
 import * as LRU from "lru-cache";
+import { loadBalancer } from "@musistudio/llms";
 
 interface ImageCacheEntry {
   source: any;
@@ -46,6 +47,16 @@ class ImageCache {
 
 const imageCache = new ImageCache();
 
+// `Router.image` may be a single target or a load-balanced list of them
+const getImageTargets = (config: any): string[] =>
+  loadBalancer.select(config.Router?.image, { dryRun: true })?.candidates || [];
+
+const selectImageModel = (config: any): string | undefined =>
+  loadBalancer.select(config.Router?.image, {
+    strategy: config.Router?.loadBalance,
+    latency: config.latency,
+  })?.model;
+
 export class ImageAgent implements IAgent {
   name = "image";
   tools: Map<string, ITool>;
@@ -56,7 +67,8 @@ export class ImageAgent implements IAgent {
   }
 
   shouldHandle(req: any, config: any): boolean {
-    if (!config.Router.image || req.body.model === config.Router.image)
+    const imageTargets = getImageTargets(config);
+    if (!imageTargets.length || imageTargets.includes(req.body.model))
       return false;
     const lastMessage = req.body.messages[req.body.messages.length - 1];
     if (
@@ -70,7 +82,7 @@ export class ImageAgent implements IAgent {
             item.content.some((sub: any) => sub.type === "image"))
       )
     ) {
-      req.body.model = config.Router.image;
+      req.body.model = selectImageModel(config);
       const images: any[] = [];
       lastMessage.content
         .filter((item: any) => item.type === "tool_result")
@@ -209,7 +221,7 @@ export class ImageAgent implements IAgent {
               "content-type": "application/json",
             },
             body: JSON.stringify({
-              model: context.config.Router.image,
+              model: selectImageModel(context.config),
               system: [
                 {
                   type: "text",
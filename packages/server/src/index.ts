@@ -5,7 +5,7 @@ import { join } from "path";
 import { initConfig, initDir } from "./utils";
 import { createServer } from "./server";
 import { apiKeyAuth } from "./middleware/auth";
-import { CONFIG_FILE, HOME_DIR, listPresets } from "@CCR/shared";
+import { CONFIG_FILE, HOME_DIR, listPresets, redactSecrets } from "@CCR/shared";
 import { createStream } from 'rotating-file-stream';
 import { sessionUsageCache } from "@musistudio/llms";
 import { SSEParserTransform } from "./utils/SSEParser.transform";
@@ -149,15 +149,19 @@ async function getServer(options: RunOptions = {}) {
       if (config.LOG === undefined) {
         config.LOG = true;
       }
+      const stream = createStream(generator, {
+        path: HOME_DIR,
+        maxFiles: 3,
+        interval: "1d",
+        compress: false,
+        maxSize: "50M"
+      });
       loggerConfig = {
         level: config.LOG_LEVEL || "debug",
-        stream: createStream(generator, {
-          path: HOME_DIR,
-          maxFiles: 3,
-          interval: "1d",
-          compress: false,
-          maxSize: "50M"
-        }),
+        // Mask resolved secrets wherever they end up in a log line
+        stream: {
+          write: (line: string) => stream.write(redactSecrets(line)),
+        },
       };
     } else {
       loggerConfig = false;
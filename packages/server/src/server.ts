@@ -18,9 +18,11 @@ import {
   getTempDir,
   findMarketPresetByName,
   getMarketPresets,
+  findLocalSecretRefs,
   type PresetFile,
   type ManifestFile,
   type PresetMetadata,
+  resolveModelInfo,
 } from "@CCR/shared";
 import fastifyMultipart from "@fastify/multipart";
 import AdmZip from "adm-zip";
@@ -82,9 +84,11 @@ export const createServer = async (config: any): Promise<any> => {
     return { "input_tokens": tokenCount }
   });
 
-  // Add endpoint to read config.json with access control
+  // Add endpoint to read config.json with access control. Environment
+  // variables and secret references are returned unresolved, so the values
+  // they hold never leave the server.
   app.get("/api/config", async (req: any, reply: any) => {
-    return await readConfigFile();
+    return await readConfigFile({ interpolate: false });
   });
 
   app.get("/api/transformers", async (req: any, reply: any) => {
@@ -99,10 +103,45 @@ export const createServer = async (config: any): Promise<any> => {
     return { transformers: transformerList };
   });
 
+  // Model registry entries for every configured provider model
+  app.get("/api/models", async (req: any, reply: any) => {
+    const config = await readConfigFile();
+    const providers = config.Providers || config.providers || [];
+    const models = providers.flatMap((provider: any) =>
+      (provider.models || []).map((model: string) => {
+        const info = resolveModelInfo(model, provider);
+        return {
+          provider: provider.name,
+          model,
+          known: !!info,
+          ...info,
+        };
+      })
+    );
+    return { models };
+  });
+
   // Add endpoint to save config.json with access control
   app.post("/api/config", async (req: any, reply: any) => {
     const newConfig = req.body;
 
+    // file: and cmd: references read files and run commands here, so only
+    // the ones already in the config file may be sent back, unless the file
+    // allows more. The setting itself can't be turned on over HTTP either.
+    const currentConfig = await readConfigFile({ interpolate: false });
+    if (currentConfig.allowSecretRefsOverHttp !== true) {
+      const allowed = findLocalSecretRefs(currentConfig);
+      if (
+        newConfig?.allowSecretRefsOverHttp === true ||
+        findLocalSecretRefs(newConfig).some((ref) => !allowed.includes(ref))
+      ) {
+        reply.status(400).send({
+          error: "file: and cmd: secret references can only be added in the config file",
+        });
+        return;
+      }
+    }
+
     // Backup existing config file if it exists
     const backupPath = await backupConfigFile();
     if (backupPath) {
@@ -37,6 +37,14 @@ declare module "@musistudio/llms" {
 
   export const sessionUsageCache: any;
 
+  // Picks one target of a Router slot that lists several
+  export const loadBalancer: {
+    select(
+      spec: any,
+      options?: { strategy?: string; dryRun?: boolean; latency?: any }
+    ): { model: string; candidates: string[] } | undefined;
+  };
+
   // Export router
   export interface RouterContext {
     configService: any;
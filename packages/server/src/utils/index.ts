@@ -65,14 +65,20 @@ const confirm = async (query: string): Promise<boolean> => {
   return answer.toLowerCase() !== "n";
 };
 
-export const readConfigFile = async () => {
+/**
+ * Read config.json. With `interpolate: false` the values are returned as
+ * written, so environment variables are not expanded.
+ */
+export const readConfigFile = async (options: { interpolate?: boolean } = {}) => {
   try {
     const config = await fs.readFile(CONFIG_FILE, "utf-8");
     try {
       // Try to parse with JSON5 first (which also supports standard JSON)
       const parsedConfig = JSON5.parse(config);
       // Interpolate environment variables in the parsed config
-      return interpolateEnvVars(parsedConfig);
+      return options.interpolate === false
+        ? parsedConfig
+        : interpolateEnvVars(parsedConfig);
     } catch (parseError) {
       console.error(`Failed to parse config file at ${CONFIG_FILE}`);
       console.error("Error details:", (parseError as Error).message);
@@ -9,6 +9,12 @@ export const PLUGINS_DIR = path.join(HOME_DIR, "plugins");
 
 export const PRESETS_DIR = path.join(HOME_DIR, "presets");
 
+export const BUDGET_FILE = path.join(HOME_DIR, "budget.json");
+
+export const SHADOW_FILE = path.join(HOME_DIR, "shadow.jsonl");
+
+export const VAULT_FILE = path.join(HOME_DIR, "secrets.vault");
+
 export const PID_FILE = path.join(HOME_DIR, '.claude-code-router.pid');
 
 export const REFERENCE_COUNT_FILE = path.join(os.tmpdir(), "claude-code-reference-count.txt");
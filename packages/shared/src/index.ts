@@ -1,4 +1,7 @@
 export * from "./constants";
+export * from "./models";
+export * from "./modelDiscovery";
+export * from "./secrets";
 
 // Export preset-related functionality
 export * from './preset/types';
@@ -0,0 +1,256 @@
+import { ModelInfo, ProviderModelInfoConfig } from "./models";
+import { resolveSecret } from "./secrets";
+
+/**
+ * Shape of a models listing endpoint
+ */
+export type ModelListFormat = "openai" | "gemini" | "ollama";
+
+/**
+ * `discovery` entry of a provider, for endpoints that cannot be derived from
+ * `api_base_url`
+ */
+export interface ModelDiscoveryConfig {
+  url?: string;
+  format?: ModelListFormat;
+}
+
+export interface DiscoverableProvider {
+  name: string;
+  api_base_url: string;
+  api_key?: string;
+  api_keys?: string[];
+  models?: string[];
+  modelInfo?: ProviderModelInfoConfig;
+  discovery?: ModelDiscoveryConfig;
+}
+
+/**
+ * A model listed by a provider, with the metadata the listing exposes
+ */
+export interface DiscoveredModel extends ModelInfo {
+  id: string;
+}
+
+export interface ModelDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+// Gemini lists models a page at a time
+const MAX_PAGES = 20;
+
+const getApiKey = async (provider: DiscoverableProvider): Promise<string | undefined> => {
+  const apiKey = provider.api_key || provider.api_keys?.[0];
+  return apiKey ? resolveSecret(apiKey) : undefined;
+};
+
+export const getModelListFormat = (provider: DiscoverableProvider): ModelListFormat => {
+  if (provider.discovery?.format) return provider.discovery.format;
+  const url = new URL(provider.discovery?.url || provider.api_base_url);
+  if (url.hostname === "generativelanguage.googleapis.com") return "gemini";
+  if (url.port === "11434" && !url.pathname.startsWith("/v1/")) return "ollama";
+  return "openai";
+};
+
+/**
+ * Models listing URL of a provider. OpenAI-compatible endpoints list models
+ * next to the completion endpoint: `.../v1/chat/completions` → `.../v1/models`.
+ */
+export const getModelListUrl = (provider: DiscoverableProvider): string => {
+  if (provider.discovery?.url) return provider.discovery.url;
+  const url = new URL(provider.api_base_url);
+  switch (getModelListFormat(provider)) {
+    case "gemini":
+      return `${url.origin}/v1beta/models`;
+    case "ollama":
+      return `${url.origin}/api/tags`;
+    default: {
+      const path = url.pathname
+        .replace(/\/+$/, "")
+        .replace(/\/(chat\/completions|completions|responses|messages)$/, "");
+      return `${url.origin}${path}/models`;
+    }
+  }
+};
+
+const getHeaders = async (
+  provider: DiscoverableProvider,
+  url: URL
+): Promise<Record<string, string>> => {
+  const apiKey = await getApiKey(provider);
+  if (!apiKey) return {};
+  if (getModelListFormat(provider) === "gemini") {
+    return { "x-goog-api-key": apiKey };
+  }
+  if (url.hostname === "api.anthropic.com") {
+    return { "x-api-key": apiKey, "anthropic-version": "2023-06-01" };
+  }
+  return { Authorization: `Bearer ${apiKey}` };
+};
+
+const toNumber = (value: any): number | undefined => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0
+    ? number
+    : undefined;
+};
+
+// OpenRouter and others price per token; the registry prices per million tokens
+const perMillion = (value: any): number | undefined => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number) || number < 0) {
+    return undefined;
+  }
+  return Number((number * 1e6).toPrecision(6));
+};
+
+const parseOpenAIModel = (item: any): DiscoveredModel | undefined => {
+  if (typeof item?.id !== "string") return undefined;
+  const model: DiscoveredModel = { id: item.id };
+  const contextWindow = toNumber(
+    item.context_length ??
+      item.context_window ??
+      item.max_context_length ??
+      item.top_provider?.context_length
+  );
+  const maxOutputTokens = toNumber(
+    item.top_provider?.max_completion_tokens ??
+      item.max_completion_tokens ??
+      item.max_output_tokens
+  );
+  const input = perMillion(item.pricing?.prompt);
+  const output = perMillion(item.pricing?.completion);
+  if (contextWindow) model.contextWindow = contextWindow;
+  if (maxOutputTokens) model.maxOutputTokens = maxOutputTokens;
+  if (input !== undefined && output !== undefined) {
+    model.pricing = { input, output };
+  }
+  return model;
+};
+
+const parseGeminiModel = (item: any): DiscoveredModel | undefined => {
+  if (typeof item?.name !== "string") return undefined;
+  // Embedding and other models that cannot chat
+  if (
+    Array.isArray(item.supportedGenerationMethods) &&
+    !item.supportedGenerationMethods.includes("generateContent")
+  ) {
+    return undefined;
+  }
+  const model: DiscoveredModel = { id: item.name.replace(/^models\//, "") };
+  const contextWindow = toNumber(item.inputTokenLimit);
+  const maxOutputTokens = toNumber(item.outputTokenLimit);
+  if (contextWindow) model.contextWindow = contextWindow;
+  if (maxOutputTokens) model.maxOutputTokens = maxOutputTokens;
+  return model;
+};
+
+const parseOllamaModel = (item: any): DiscoveredModel | undefined => {
+  const id = item?.name || item?.model;
+  return typeof id === "string" ? { id } : undefined;
+};
+
+/**
+ * Query the models listing of a provider: OpenAI-compatible `/models`,
+ * Gemini `models.list` or Ollama `/api/tags`
+ */
+export const discoverModels = async (
+  provider: DiscoverableProvider,
+  options: { timeoutMs?: number } = {}
+): Promise<DiscoveredModel[]> => {
+  const format = getModelListFormat(provider);
+  const listUrl = new URL(getModelListUrl(provider));
+  const headers = await getHeaders(provider, listUrl);
+  const models: DiscoveredModel[] = [];
+
+  let pageToken: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const url = new URL(listUrl);
+    if (format === "gemini") {
+      url.searchParams.set("pageSize", "1000");
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(
+        `Failed to list models of ${provider.name}: ${response.status} ${response.statusText} ${text.slice(0, 200)}`.trim()
+      );
+    }
+    const data: any = await response.json();
+
+    if (format === "gemini") {
+      (data?.models || []).forEach((item: any) => {
+        const model = parseGeminiModel(item);
+        if (model) models.push(model);
+      });
+      pageToken = data?.nextPageToken;
+      if (pageToken) continue;
+    } else if (format === "ollama") {
+      (data?.models || []).forEach((item: any) => {
+        const model = parseOllamaModel(item);
+        if (model) models.push(model);
+      });
+    } else {
+      (Array.isArray(data) ? data : data?.data || []).forEach((item: any) => {
+        const model = parseOpenAIModel(item);
+        if (model) models.push(model);
+      });
+    }
+    break;
+  }
+
+  return models;
+};
+
+export const diffModels = (
+  configured: string[],
+  discovered: DiscoveredModel[]
+): ModelDiff => {
+  const ids = new Set(discovered.map((model) => model.id));
+  return {
+    added: discovered
+      .map((model) => model.id)
+      .filter((id) => !configured.includes(id)),
+    removed: configured.filter((id) => !ids.has(id)),
+    unchanged: configured.filter((id) => ids.has(id)),
+  };
+};
+
+/**
+ * Provider entry with the discovered models added, and with the models that
+ * are no longer listed removed when `prune` is set. Context length and
+ * pricing of the discovered models are stored in `modelInfo.models`.
+ */
+export const applyDiscoveredModels = <T extends DiscoverableProvider>(
+  provider: T,
+  discovered: DiscoveredModel[],
+  options: { prune?: boolean } = {}
+): T => {
+  const configured = provider.models || [];
+  const diff = diffModels(configured, discovered);
+  const models = [
+    ...(options.prune ? diff.unchanged : configured),
+    ...diff.added,
+  ];
+
+  const infoModels = { ...provider.modelInfo?.models };
+  discovered.forEach(({ id, ...info }) => {
+    if (!models.includes(id) || Object.keys(info).length === 0) return;
+    infoModels[id] = { ...infoModels[id], ...info };
+  });
+
+  const updated: T = { ...provider, models };
+  if (Object.keys(infoModels).length) {
+    updated.modelInfo = { ...provider.modelInfo, models: infoModels };
+  }
+  return updated;
+};
@@ -0,0 +1,97 @@
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * What a model can do. Fields that are not known are left undefined.
+ */
+export interface ModelInfo {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  vision?: boolean;
+  tools?: boolean;
+  reasoning?: boolean;
+  pricing?: ModelPricing;
+}
+
+/**
+ * `modelInfo` entry of a provider, overriding the built-in registry
+ */
+export interface ProviderModelInfoConfig {
+  default?: ModelInfo;
+  models?: Record<string, ModelInfo>;
+}
+
+/**
+ * Built-in model metadata, matched against the model name in order.
+ * More specific patterns must come before the general ones.
+ */
+export const BUILTIN_MODELS: Array<[RegExp, ModelInfo]> = [
+  [/claude-opus-4-5/, { contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: true, pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 } }],
+  [/claude-(3-)?opus|claude-opus/, { contextWindow: 200000, maxOutputTokens: 32000, vision: true, tools: true, reasoning: true, pricing: { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 } }],
+  [/claude-3-5-sonnet/, { contextWindow: 200000, maxOutputTokens: 8192, vision: true, tools: true, reasoning: false, pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 } }],
+  [/claude-(3-7-)?sonnet|claude-sonnet/, { contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: true, pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 } }],
+  [/claude-haiku-4/, { contextWindow: 200000, maxOutputTokens: 64000, vision: true, tools: true, reasoning: true, pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 } }],
+  [/claude-3-5-haiku/, { contextWindow: 200000, maxOutputTokens: 8192, vision: false, tools: true, reasoning: false, pricing: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 } }],
+  [/claude-3-haiku/, { contextWindow: 200000, maxOutputTokens: 4096, vision: true, tools: true, reasoning: false, pricing: { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 } }],
+  [/gpt-5-nano/, { contextWindow: 400000, maxOutputTokens: 128000, vision: true, tools: true, reasoning: true, pricing: { input: 0.05, output: 0.4, cacheRead: 0.005 } }],
+  [/gpt-5-mini/, { contextWindow: 400000, maxOutputTokens: 128000, vision: true, tools: true, reasoning: true, pricing: { input: 0.25, output: 2, cacheRead: 0.025 } }],
+  [/gpt-5/, { contextWindow: 400000, maxOutputTokens: 128000, vision: true, tools: true, reasoning: true, pricing: { input: 1.25, output: 10, cacheRead: 0.125 } }],
+  [/gpt-4\.1-nano/, { contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true, reasoning: false, pricing: { input: 0.1, output: 0.4, cacheRead: 0.025 } }],
+  [/gpt-4\.1-mini/, { contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true, reasoning: false, pricing: { input: 0.4, output: 1.6, cacheRead: 0.1 } }],
+  [/gpt-4\.1/, { contextWindow: 1047576, maxOutputTokens: 32768, vision: true, tools: true, reasoning: false, pricing: { input: 2, output: 8, cacheRead: 0.5 } }],
+  [/gpt-4o-mini/, { contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true, reasoning: false, pricing: { input: 0.15, output: 0.6, cacheRead: 0.075 } }],
+  [/gpt-4o/, { contextWindow: 128000, maxOutputTokens: 16384, vision: true, tools: true, reasoning: false, pricing: { input: 2.5, output: 10, cacheRead: 1.25 } }],
+  [/o3-mini/, { contextWindow: 200000, maxOutputTokens: 100000, vision: false, tools: true, reasoning: true, pricing: { input: 1.1, output: 4.4, cacheRead: 0.55 } }],
+  [/o4-mini/, { contextWindow: 200000, maxOutputTokens: 100000, vision: true, tools: true, reasoning: true, pricing: { input: 1.1, output: 4.4, cacheRead: 0.275 } }],
+  [/\bo3\b/, { contextWindow: 200000, maxOutputTokens: 100000, vision: true, tools: true, reasoning: true, pricing: { input: 2, output: 8, cacheRead: 0.5 } }],
+  [/gemini-2\.5-pro/, { contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, reasoning: true, pricing: { input: 1.25, output: 10, cacheRead: 0.31 } }],
+  [/gemini-2\.5-flash-lite/, { contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, reasoning: true, pricing: { input: 0.1, output: 0.4, cacheRead: 0.025 } }],
+  [/gemini-2\.5-flash/, { contextWindow: 1048576, maxOutputTokens: 65536, vision: true, tools: true, reasoning: true, pricing: { input: 0.3, output: 2.5, cacheRead: 0.075 } }],
+  [/gemini-2\.0-flash/, { contextWindow: 1048576, maxOutputTokens: 8192, vision: true, tools: true, reasoning: false, pricing: { input: 0.1, output: 0.4, cacheRead: 0.025 } }],
+  [/deepseek-reasoner|deepseek-r1/, { contextWindow: 128000, maxOutputTokens: 64000, vision: false, tools: true, reasoning: true, pricing: { input: 0.55, output: 2.19, cacheRead: 0.14 } }],
+  [/deepseek-chat|deepseek-v3/, { contextWindow: 128000, maxOutputTokens: 8192, vision: false, tools: true, reasoning: false, pricing: { input: 0.27, output: 1.1, cacheRead: 0.07 } }],
+  [/kimi-k2/, { contextWindow: 131072, maxOutputTokens: 16384, vision: false, tools: true, reasoning: false, pricing: { input: 0.6, output: 2.5, cacheRead: 0.15 } }],
+  [/qwen3-coder/, { contextWindow: 262144, maxOutputTokens: 65536, vision: false, tools: true, reasoning: false, pricing: { input: 1, output: 5 } }],
+  [/glm-4\.5v/, { contextWindow: 65536, maxOutputTokens: 16384, vision: true, tools: true, reasoning: true, pricing: { input: 0.6, output: 1.8 } }],
+  [/glm-4\.5-air/, { contextWindow: 131072, maxOutputTokens: 98304, vision: false, tools: true, reasoning: true, pricing: { input: 0.2, output: 1.1 } }],
+  [/glm-4\.6/, { contextWindow: 200000, maxOutputTokens: 128000, vision: false, tools: true, reasoning: true, pricing: { input: 0.6, output: 2.2, cacheRead: 0.11 } }],
+  [/glm-4\.5/, { contextWindow: 131072, maxOutputTokens: 98304, vision: false, tools: true, reasoning: true, pricing: { input: 0.6, output: 2.2, cacheRead: 0.11 } }],
+  [/llama-3\.3-70b/, { contextWindow: 131072, maxOutputTokens: 32768, vision: false, tools: true, reasoning: false }],
+];
+
+export const getBuiltinModelInfo = (model: string): ModelInfo | undefined => {
+  const name = model.toLowerCase();
+  return BUILTIN_MODELS.find(([pattern]) => pattern.test(name))?.[1];
+};
+
+/**
+ * Resolve what is known about a model of a provider.
+ * Later sources win: built-in registry, provider `modelInfo.default`,
+ * provider `modelInfo.models[model]`.
+ */
+export const resolveModelInfo = (
+  model: string,
+  provider?: { modelInfo?: ProviderModelInfoConfig }
+): ModelInfo | undefined => {
+  const sources = [
+    getBuiltinModelInfo(model),
+    provider?.modelInfo?.default,
+    provider?.modelInfo?.models?.[model],
+  ].filter((source): source is ModelInfo => !!source);
+  if (sources.length === 0) return undefined;
+  return sources.reduce<ModelInfo>(
+    (info, source) => ({
+      ...info,
+      ...source,
+      pricing: source.pricing ? { ...info.pricing, ...source.pricing } : info.pricing,
+    }),
+    {}
+  );
+};
@@ -150,6 +150,20 @@ function sanitizeObject(
 
         sanitizedCount++;
       }
+    } else if (
+      isSensitiveField(key) &&
+      Array.isArray(value) &&
+      value.every((item) => typeof item === 'string')
+    ) {
+      // List of secrets (e.g. api_keys): one placeholder per entry
+      const entityName = config.name || 'CONFIG';
+      sanitizedObj[key] = value.map((item: string, index: number) => {
+        if (isEnvPlaceholder(item)) {
+          return item;
+        }
+        sanitizedCount++;
+        return `\${${generateEnvVarName('global', entityName, `${key}_${index + 1}`)}}`;
+      });
     } else if (typeof value === 'object' && value !== null) {
       // Recursively process nested objects
       const result = sanitizeObject(value, currentPath, sanitizedCount);
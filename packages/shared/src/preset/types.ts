@@ -2,6 +2,8 @@
  * Type definitions for preset functionality
  */
 
+import type { ProviderModelInfoConfig } from '../models';
+
 // Collection of user input values
 export interface UserInputValues {
   [inputId: string]: any;
@@ -101,19 +103,49 @@ export interface ProviderConfig {
   api_key: string;
   models: string[];
   transformer?: any;
+  modelInfo?: ProviderModelInfoConfig;
   [key: string]: any;
 }
 
+// Router target: "provider,model" or a load-balanced list of targets
+export type RouterTarget =
+  | string
+  | Array<string | { model: string; weight?: number }>
+  | {
+      strategy?: 'weighted' | 'round-robin' | 'least-outstanding' | 'fastest';
+      targets: Array<string | { model: string; weight?: number }>;
+    };
+
 // Router configuration
 export interface RouterConfig {
-  default?: string;
-  background?: string;
-  think?: string;
-  longContext?: string;
-  longContextThreshold?: number;
-  webSearch?: string;
-  image?: string;
-  [key: string]: string | number | undefined;
+  default?: RouterTarget;
+  background?: RouterTarget;
+  think?: RouterTarget;
+  longContext?: RouterTarget;
+  longContextThreshold?: number | "auto";
+  webSearch?: RouterTarget;
+  image?: RouterTarget;
+  loadBalance?: 'weighted' | 'round-robin' | 'least-outstanding' | 'fastest';
+  rules?: RouterRuleConfig[];
+  [key: string]: any;
+}
+
+// Declarative routing rule (Router.rules)
+export interface RouterRuleConfig {
+  name?: string;
+  enabled?: boolean;
+  match?: {
+    tokens?: { min?: number; max?: number };
+    hasTools?: boolean;
+    tool?: string;                 // Regex against tool name or type
+    thinking?: boolean;
+    headers?: Record<string, string>;  // Header name -> regex
+    project?: string;              // Regex against Claude project folder name
+    model?: string;                // Regex against requested model
+    lastUserMessage?: string;      // Regex against last user message text
+  };
+  model: RouterTarget;
+  scenario?: string;
 }
 
 // Transformer configuration
@@ -0,0 +1,240 @@
+import { exec } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { HOME_DIR, VAULT_FILE } from "./constants";
+
+/**
+ * Where a secret reference reads its value from:
+ * - `file:~/.secrets/openrouter`: contents of the file
+ * - `cmd:pass show deepseek`: output of the command
+ * - `vault:openrouter`: entry of the encrypted vault
+ */
+export type SecretSource = "file" | "cmd" | "vault";
+
+export interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const SECRET_REF_PATTERN = /^(file|cmd|vault):(.+)$/s;
+
+// Resolved values are reused for this long, so rotated secrets are picked up
+// without a restart
+export const DEFAULT_SECRET_TTL_MS = 5 * 60 * 1000;
+
+const COMMAND_TIMEOUT_MS = 10 * 1000;
+
+// Shorter values are not masked in logs, they would match unrelated text
+const MIN_REDACTED_LENGTH = 8;
+
+export const VAULT_PASSPHRASE_ENV = "CCR_VAULT_PASSPHRASE";
+
+const cache: Map<string, { value: string; expiresAt: number }> = new Map();
+const pending: Map<string, Promise<string>> = new Map();
+const resolvedValues: Set<string> = new Set();
+
+export const isSecretRef = (value: any): value is string =>
+  typeof value === "string" && SECRET_REF_PATTERN.test(value.trim());
+
+export const parseSecretRef = (
+  value: string
+): { source: SecretSource; target: string } | undefined => {
+  const match = value.trim().match(SECRET_REF_PATTERN);
+  if (!match) return undefined;
+  return { source: match[1] as SecretSource, target: match[2].trim() };
+};
+
+/**
+ * `file:` and `cmd:` references anywhere in a value, e.g. a request body.
+ * They read files and run commands on the machine that resolves them.
+ */
+export const findLocalSecretRefs = (value: any): string[] => {
+  if (typeof value === "string") {
+    const source = parseSecretRef(value)?.source;
+    return source === "file" || source === "cmd" ? [value.trim()] : [];
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap((item) => findLocalSecretRefs(item));
+  }
+  return [];
+};
+
+const expandHome = (filePath: string): string =>
+  filePath === "~" || filePath.startsWith("~/")
+    ? path.join(os.homedir(), filePath.slice(1))
+    : path.resolve(HOME_DIR, filePath);
+
+const runCommand = (command: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    exec(
+      command,
+      { timeout: COMMAND_TIMEOUT_MS, maxBuffer: 64 * 1024, windowsHide: true },
+      (error, stdout) => {
+        if (error) {
+          // stderr and stdout may hold part of the secret; report the exit only
+          reject(
+            new Error(
+              error.killed
+                ? `command timed out after ${COMMAND_TIMEOUT_MS / 1000}s`
+                : `command exited with code ${error.code}`
+            )
+          );
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+
+const deriveKey = (passphrase: string, salt: Buffer): Buffer =>
+  scryptSync(passphrase, salt, 32);
+
+/**
+ * Decrypt the vault. Returns an empty vault when the file does not exist.
+ */
+export const readVault = async (
+  passphrase: string | undefined = process.env[VAULT_PASSPHRASE_ENV]
+): Promise<Record<string, string>> => {
+  let content: string;
+  try {
+    content = await fs.readFile(VAULT_FILE, "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return {};
+    throw error;
+  }
+  if (!passphrase) {
+    throw new Error(`the vault is locked, set ${VAULT_PASSPHRASE_ENV} to unlock it`);
+  }
+
+  const vault: VaultFile = JSON.parse(content);
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, Buffer.from(vault.salt, "base64")),
+    Buffer.from(vault.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(vault.tag, "base64"));
+  try {
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(vault.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString("utf-8"));
+  } catch {
+    throw new Error("wrong vault passphrase");
+  }
+};
+
+/**
+ * Encrypt the secrets with AES-256-GCM, using a key derived from the
+ * passphrase with scrypt, and replace the vault file
+ */
+export const writeVault = async (
+  secrets: Record<string, string>,
+  passphrase: string
+): Promise<void> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf-8"),
+    cipher.final(),
+  ]);
+  const vault: VaultFile = {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  await fs.mkdir(path.dirname(VAULT_FILE), { recursive: true });
+  await fs.writeFile(VAULT_FILE, JSON.stringify(vault, null, 2), { mode: 0o600 });
+  clearSecretCache();
+};
+
+const readSecret = async (source: SecretSource, target: string): Promise<string> => {
+  switch (source) {
+    case "file":
+      return fs.readFile(expandHome(target), "utf-8");
+    case "cmd":
+      return runCommand(target);
+    case "vault": {
+      const secrets = await readVault();
+      if (!(target in secrets)) {
+        throw new Error(`no entry "${target}" in the vault`);
+      }
+      return secrets[target];
+    }
+  }
+};
+
+/**
+ * Value of a secret reference. Values that are not references are returned
+ * as they are. Resolved values are cached for `ttlMs`.
+ */
+export const resolveSecret = async (
+  value: string,
+  options: { ttlMs?: number } = {}
+): Promise<string> => {
+  const ref = parseSecretRef(value);
+  if (!ref) return value;
+
+  const key = value.trim();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const promise = readSecret(ref.source, ref.target)
+    .then((secret) => {
+      const resolved = secret.trim();
+      if (!resolved) {
+        throw new Error("the secret is empty");
+      }
+      cache.set(key, {
+        value: resolved,
+        expiresAt: Date.now() + (options.ttlMs ?? DEFAULT_SECRET_TTL_MS),
+      });
+      if (resolved.length >= MIN_REDACTED_LENGTH) {
+        resolvedValues.add(resolved);
+      }
+      return resolved;
+    })
+    .catch((error: any) => {
+      throw new Error(`Failed to resolve secret ${key}: ${error.message}`);
+    })
+    .finally(() => pending.delete(key));
+  pending.set(key, promise);
+  return promise;
+};
+
+/**
+ * Drop cached values, of one reference or of all of them
+ */
+export const clearSecretCache = (value?: string): void => {
+  if (value) {
+    cache.delete(value.trim());
+  } else {
+    cache.clear();
+  }
+};
+
+/**
+ * Mask every resolved secret value in a text, e.g. a log line or an
+ * upstream error message
+ */
+export const redactSecrets = (text: string): string => {
+  let redacted = text;
+  resolvedValues.forEach((secret) => {
+    if (redacted.includes(secret)) {
+      redacted = redacted.split(secret).join("***");
+    }
+  });
+  return redacted;
+};
@@ -1,7 +1,7 @@
 import { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode, Dispatch, SetStateAction } from 'react';
 import { api } from '@/lib/api';
-import type { Config, StatusLineConfig } from '@/types';
+import type { Config, StatusLineConfig, RouterTarget } from '@/types';
 
 interface ConfigContextType {
   config: Config | null;
@@ -9,6 +9,12 @@ interface ConfigContextType {
   error: Error | null;
 }
 
+// A Router slot the UI keeps as loaded: a target string or a target list
+const isRouterTarget = (value: unknown): value is RouterTarget =>
+  typeof value === 'string' ||
+  Array.isArray(value) ||
+  (!!value && typeof value === 'object' && Array.isArray((value as { targets?: unknown }).targets));
+
 const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -90,13 +96,14 @@ export function ConfigProvider({ children }: ConfigProviderProps) {
             powerline: { modules: [] }
           },
           Router: data.Router && typeof data.Router === 'object' ? {
-            default: typeof data.Router.default === 'string' ? data.Router.default : '',
-            background: typeof data.Router.background === 'string' ? data.Router.background : '',
-            think: typeof data.Router.think === 'string' ? data.Router.think : '',
-            longContext: typeof data.Router.longContext === 'string' ? data.Router.longContext : '',
-            longContextThreshold: typeof data.Router.longContextThreshold === 'number' ? data.Router.longContextThreshold : 60000,
-            webSearch: typeof data.Router.webSearch === 'string' ? data.Router.webSearch : '',
-            image: typeof data.Router.image === 'string' ? data.Router.image : ''
+            ...data.Router,
+            default: isRouterTarget(data.Router.default) ? data.Router.default : '',
+            background: isRouterTarget(data.Router.background) ? data.Router.background : '',
+            think: isRouterTarget(data.Router.think) ? data.Router.think : '',
+            longContext: isRouterTarget(data.Router.longContext) ? data.Router.longContext : '',
+            longContextThreshold: typeof data.Router.longContextThreshold === 'number' || data.Router.longContextThreshold === 'auto' ? data.Router.longContextThreshold : 60000,
+            webSearch: isRouterTarget(data.Router.webSearch) ? data.Router.webSearch : '',
+            image: isRouterTarget(data.Router.image) ? data.Router.image : ''
           } : {
             default: '',
             background: '',
@@ -1,15 +1,30 @@
 import { Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Provider } from "@/types";
+import type { ModelRegistryEntry, Provider } from "@/types";
 
 interface ProviderListProps {
   providers: Provider[];
+  modelRegistry?: Record<string, ModelRegistryEntry>;
   onEdit: (index: number) => void;
   onRemove: (index: number) => void;
 }
 
-export function ProviderList({ providers, onEdit, onRemove }: ProviderListProps) {
+const formatTokens = (tokens: number) =>
+  tokens >= 1000000 ? `${Math.round(tokens / 100000) / 10}M` : `${Math.round(tokens / 1000)}k`;
+
+// Short summary of what the registry knows about a model, e.g. "200k · vision · tools"
+const describeModel = (entry?: ModelRegistryEntry) => {
+  if (!entry || !entry.known) return undefined;
+  const parts: string[] = [];
+  if (entry.contextWindow) parts.push(formatTokens(entry.contextWindow));
+  if (entry.vision) parts.push("vision");
+  if (entry.tools) parts.push("tools");
+  if (entry.reasoning) parts.push("reasoning");
+  return parts.length ? parts.join(" · ") : undefined;
+};
+
+export function ProviderList({ providers, modelRegistry = {}, onEdit, onRemove }: ProviderListProps) {
   // Handle case where providers might be null or undefined
   if (!providers || !Array.isArray(providers)) {
     return (
@@ -59,12 +74,16 @@ export function ProviderList({ providers, onEdit, onRemove }: ProviderListProps)
               <p className="text-md font-semibold text-gray-800">{providerName}</p>
               <p className="text-sm text-gray-500">{apiBaseUrl}</p>
               <div className="flex flex-wrap gap-2 pt-2">
-                {models.map((model, modelIndex) => (
-                  // Handle case where model might be null or undefined
-                  <Badge key={modelIndex} variant="outline" className="font-normal transition-all-ease hover:scale-105">
-                    {model || "Unnamed Model"}
-                  </Badge>
-                ))}
+                {models.map((model, modelIndex) => {
+                  const entry = modelRegistry[`${providerName},${model}`];
+                  return (
+                    // Handle case where model might be null or undefined
+                    <Badge key={modelIndex} variant="outline" className="font-normal transition-all-ease hover:scale-105" title={describeModel(entry)}>
+                      {model || "Unnamed Model"}
+                      {entry?.contextWindow && <span className="ml-1 text-gray-400">{formatTokens(entry.contextWindow)}</span>}
+                    </Badge>
+                  );
+                })}
               </div>
             </div>
             <div className="ml-4 flex flex-shrink-0 items-center gap-2">
@@ -19,7 +19,7 @@ import { Badge } from "@/components/ui/badge";
 import { Combobox } from "@/components/ui/combobox";
 import { ComboInput } from "@/components/ui/combo-input";
 import { api } from "@/lib/api";
-import type { Provider } from "@/types";
+import type { ModelRegistryEntry, Provider } from "@/types";
 
 interface ProviderType extends Provider {}
 
@@ -32,6 +32,7 @@ export function Providers() {
   const [providerParamInputs, setProviderParamInputs] = useState<Record<string, {name: string, value: string}>>({});
   const [modelParamInputs, setModelParamInputs] = useState<Record<string, {name: string, value: string}>>({});
   const [availableTransformers, setAvailableTransformers] = useState<{name: string; endpoint: string | null;}[]>([]);
+  const [modelRegistry, setModelRegistry] = useState<Record<string, ModelRegistryEntry>>({});
   const [editingProviderData, setEditingProviderData] = useState<ProviderType | null>(null);
   const [isNewProvider, setIsNewProvider] = useState<boolean>(false);
   const [providerTemplates, setProviderTemplates] = useState<ProviderType[]>([]);
@@ -73,6 +74,22 @@ export function Providers() {
     fetchTransformers();
   }, []);
 
+  // Fetch model metadata (context size, capabilities) of the configured models
+  useEffect(() => {
+    const fetchModelRegistry = async () => {
+      try {
+        const models = await api.getModels();
+        setModelRegistry(
+          Object.fromEntries(models.map((entry) => [`${entry.provider},${entry.model}`, entry]))
+        );
+      } catch (error) {
+        console.error('Failed to fetch model registry:', error);
+      }
+    };
+
+    fetchModelRegistry();
+  }, [config?.Providers]);
+
   // Handle case where config is null or undefined
   if (!config) {
     return (
@@ -549,6 +566,7 @@ export function Providers() {
       <CardContent className="flex-grow overflow-y-auto p-4">
         <ProviderList
           providers={filteredProviders}
+          modelRegistry={modelRegistry}
           onEdit={handleEditProvider}
           onRemove={handleSetDeletingProviderIndex}
         />
@@ -4,6 +4,13 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useConfig } from "./ConfigProvider";
 import { Combobox } from "./ui/combobox";
+import type { RouterTarget } from "@/types";
+
+// Models of a load-balanced slot, which the form shows but cannot edit
+const describeTargetList = (target: Exclude<RouterTarget, string>): string => {
+  const list = Array.isArray(target) ? target : target.targets;
+  return list.map((entry) => (typeof entry === "string" ? entry : entry.model)).join(" | ");
+};
 
 export function Router() {
   const { t } = useTranslation();
@@ -41,6 +48,12 @@ export function Router() {
     setConfig({ ...config, Router: newRouter });
   };
 
+  // A load-balanced slot is listed and kept as is until a model is picked
+  const slotPlaceholder = (value: RouterTarget) =>
+    !value || typeof value === "string"
+      ? t("router.selectModel")
+      : t("router.targetList", { targets: describeTargetList(value) });
+
   const handleForceUseImageAgentChange = (value: boolean) => {
     setConfig({ ...config, forceUseImageAgent: value });
   };
@@ -74,9 +87,9 @@ export function Router() {
           <Label>{t("router.default")}</Label>
           <Combobox
             options={modelOptions}
-            value={routerConfig.default || ""}
+            value={typeof routerConfig.default === "string" ? routerConfig.default : ""}
             onChange={(value) => handleRouterChange("default", value)}
-            placeholder={t("router.selectModel")}
+            placeholder={slotPlaceholder(routerConfig.default)}
             searchPlaceholder={t("router.searchModel")}
             emptyPlaceholder={t("router.noModelFound")}
           />
@@ -85,9 +98,9 @@ export function Router() {
           <Label>{t("router.background")}</Label>
           <Combobox
             options={modelOptions}
-            value={routerConfig.background || ""}
+            value={typeof routerConfig.background === "string" ? routerConfig.background : ""}
             onChange={(value) => handleRouterChange("background", value)}
-            placeholder={t("router.selectModel")}
+            placeholder={slotPlaceholder(routerConfig.background)}
             searchPlaceholder={t("router.searchModel")}
             emptyPlaceholder={t("router.noModelFound")}
           />
@@ -96,9 +109,9 @@ export function Router() {
           <Label>{t("router.think")}</Label>
           <Combobox
             options={modelOptions}
-            value={routerConfig.think || ""}
+            value={typeof routerConfig.think === "string" ? routerConfig.think : ""}
             onChange={(value) => handleRouterChange("think", value)}
-            placeholder={t("router.selectModel")}
+            placeholder={slotPlaceholder(routerConfig.think)}
             searchPlaceholder={t("router.searchModel")}
             emptyPlaceholder={t("router.noModelFound")}
           />
@@ -109,9 +122,9 @@ export function Router() {
               <Label>{t("router.longContext")}</Label>
               <Combobox
                 options={modelOptions}
-                value={routerConfig.longContext || ""}
+                value={typeof routerConfig.longContext === "string" ? routerConfig.longContext : ""}
                 onChange={(value) => handleRouterChange("longContext", value)}
-                placeholder={t("router.selectModel")}
+                placeholder={slotPlaceholder(routerConfig.longContext)}
                 searchPlaceholder={t("router.searchModel")}
                 emptyPlaceholder={t("router.noModelFound")}
               />
@@ -120,9 +133,9 @@ export function Router() {
               <Label>{t("router.longContextThreshold")}</Label>
               <Input
                 type="number"
-                value={routerConfig.longContextThreshold || 60000}
+                value={routerConfig.longContextThreshold === "auto" ? "" : routerConfig.longContextThreshold || 60000}
                 onChange={(e) => handleRouterChange("longContextThreshold", parseInt(e.target.value) || 60000)}
-                placeholder="60000"
+                placeholder={routerConfig.longContextThreshold === "auto" ? "auto" : "60000"}
               />
             </div>
           </div>
@@ -131,9 +144,9 @@ export function Router() {
           <Label>{t("router.webSearch")}</Label>
           <Combobox
             options={modelOptions}
-            value={routerConfig.webSearch || ""}
+            value={typeof routerConfig.webSearch === "string" ? routerConfig.webSearch : ""}
             onChange={(value) => handleRouterChange("webSearch", value)}
-            placeholder={t("router.selectModel")}
+            placeholder={slotPlaceholder(routerConfig.webSearch)}
             searchPlaceholder={t("router.searchModel")}
             emptyPlaceholder={t("router.noModelFound")}
           />
@@ -144,9 +157,9 @@ export function Router() {
               <Label>{t("router.image")} (beta)</Label>
               <Combobox
                 options={modelOptions}
-                value={routerConfig.image || ""}
+                value={typeof routerConfig.image === "string" ? routerConfig.image : ""}
                 onChange={(value) => handleRouterChange("image", value)}
-                placeholder={t("router.selectModel")}
+                placeholder={slotPlaceholder(routerConfig.image)}
                 searchPlaceholder={t("router.searchModel")}
                 emptyPlaceholder={t("router.noModelFound")}
               />
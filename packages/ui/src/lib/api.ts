@@ -1,4 +1,4 @@
-import type { Config, Provider, Transformer } from '@/types';
+import type { Config, ModelRegistryEntry, Provider, Transformer } from '@/types';
 
 // 日志聚合响应类型
 interface GroupedLogsResponse {
@@ -187,6 +187,12 @@ class ApiClient {
     return this.delete<void>(`/api/providers/${index}`);
   }
 
+  // Get model registry entries of the configured providers
+  async getModels(): Promise<ModelRegistryEntry[]> {
+    const response = await this.get<{ models: ModelRegistryEntry[] }>('/models');
+    return response.models;
+  }
+
   // Get transformers
   async getTransformers(): Promise<Transformer[]> {
     return this.get<Transformer[]>('/api/transformers');
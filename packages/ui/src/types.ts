@@ -11,15 +11,36 @@ export interface Provider {
   transformer?: ProviderTransformer;
 }
 
+export interface ModelRegistryEntry {
+  provider: string;
+  model: string;
+  known: boolean;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  vision?: boolean;
+  tools?: boolean;
+  reasoning?: boolean;
+  pricing?: { input: number; output: number; cacheRead?: number; cacheWrite?: number };
+}
+
+// "provider,model", or a load-balanced list of targets that is only
+// editable in the JSON editor
+export type RouterTarget =
+    | string
+    | Array<string | { model: string; weight?: number }>
+    | { strategy?: string; targets: Array<string | { model: string; weight?: number }> };
+
 export interface RouterConfig {
-    default: string;
-    background: string;
-    think: string;
-    longContext: string;
-    longContextThreshold: number;
-    webSearch: string;
-    image: string;
+    default: RouterTarget;
+    background: RouterTarget;
+    think: RouterTarget;
+    longContext: RouterTarget;
+    longContextThreshold: number | "auto";
+    webSearch: RouterTarget;
+    image: RouterTarget;
     custom?: any;
+    // Entries without a form field, such as rules and loadBalance, are kept
+    [key: string]: unknown;
 }
 
 export interface Transformer {